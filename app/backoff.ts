@@ -0,0 +1,40 @@
+import type { RetryBackoffConfig } from './types.js';
+
+/**
+ * Exponential retry backoff with jitter
+ * 
+ * The delay before retry attempt n is `baseMs * multiplier^(n-1)`, capped at
+ * `maxMs`, then randomized according to the jitter mode:
+ * - full: uniform between 0 and the delay
+ * - equal: half the delay plus a uniform share of the other half
+ * - none: the delay as-is
+ */
+export class RetryBackoff {
+  private config: Required<RetryBackoffConfig>;
+  private random: () => number;
+
+  constructor(options: {
+    config: Required<RetryBackoffConfig>;
+    random?: (() => number) | undefined;
+  }) {
+    this.config = options.config;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Get the delay before the given retry (1 = first retry) in ms
+   */
+  getDelay(retry: number): number {
+    const { baseMs, maxMs, multiplier, jitter } = this.config;
+    const exponential = Math.min(maxMs, baseMs * Math.pow(multiplier, Math.max(0, retry - 1)));
+
+    switch (jitter) {
+      case 'full':
+        return Math.round(this.random() * exponential);
+      case 'equal':
+        return Math.round(exponential / 2 + this.random() * (exponential / 2));
+      case 'none':
+        return Math.round(exponential);
+    }
+  }
+}
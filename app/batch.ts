@@ -0,0 +1,124 @@
+import type { BatchItemResult, BatchResult } from './types.js';
+import { QueueFullError } from './errors.js';
+
+/**
+ * Run a batch of items through the pool with bounded fan-out
+ * 
+ * At most `concurrency` items are submitted at a time; the next item is only
+ * submitted once a previous one settles. If the queue is full anyway (e.g.
+ * because of other traffic), the item waits for the suggested retry time and
+ * is submitted again instead of failing with QueueFullError.
+ * With `stopOnError`, items not yet submitted after the first failure are
+ * skipped, as are items not yet submitted when `signal` aborts.
+ */
+export async function runBatch<TItem, TResponse>(options: {
+  items: TItem[];
+  concurrency: number;
+  stopOnError: boolean;
+  signal?: AbortSignal | undefined;
+  execute: (item: TItem) => Promise<TResponse>;
+}): Promise<Omit<BatchResult<TResponse>, 'keyUsage'>> {
+  const { items, stopOnError, signal, execute } = options;
+  const startedAt = Date.now();
+  const results: BatchItemResult<TResponse>[] = items.map(() => ({ status: 'skipped' }));
+  let nextIndex = 0;
+  let stopped = false;
+
+  const worker = async (): Promise<void> => {
+    while (!stopped && !signal?.aborted && nextIndex < items.length) {
+      const index = nextIndex++;
+      const itemStartedAt = Date.now();
+
+      try {
+        const submitted = await submitWithBackpressure(() => execute(items[index]), signal);
+        if (!submitted) {
+          // Aborted while waiting for room in the queue, so never submitted
+          continue;
+        }
+        results[index] = {
+          status: 'fulfilled',
+          value: submitted.value,
+          durationMs: Date.now() - itemStartedAt,
+        };
+      } catch (error) {
+        results[index] = {
+          status: 'rejected',
+          reason: error instanceof Error ? error : new Error(String(error)),
+          durationMs: Date.now() - itemStartedAt,
+        };
+        if (stopOnError) {
+          stopped = true;
+        }
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  let succeeded = 0;
+  let failed = 0;
+  let skipped = 0;
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      succeeded++;
+    } else if (result.status === 'rejected') {
+      failed++;
+    } else {
+      skipped++;
+    }
+  }
+
+  return {
+    results,
+    succeeded,
+    failed,
+    skipped,
+    totalMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Submit a request, waiting and resubmitting while the queue is full
+ * Returns null if the signal aborts before the request could be submitted
+ */
+async function submitWithBackpressure<TResponse>(
+  submit: () => Promise<TResponse>,
+  signal: AbortSignal | undefined
+): Promise<{ value: TResponse } | null> {
+  for (;;) {
+    try {
+      return { value: await submit() };
+    } catch (error) {
+      if (!(error instanceof QueueFullError)) {
+        throw error;
+      }
+      if (!(await waitUnlessAborted(error.retryAfterMs, signal))) {
+        return null;
+      }
+    }
+  }
+}
+
+/**
+ * Wait for the given time, cut short if the signal aborts
+ * Resolves to false if the signal aborted
+ */
+function waitUnlessAborted(ms: number, signal: AbortSignal | undefined): Promise<boolean> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,146 @@
+import type { CacheConfig, CacheStats, StorageAdapter } from './types.js';
+import { memoryAdapter } from './storage/memory.js';
+
+/**
+ * Response cache in front of the key pool
+ * 
+ * Stores serialized responses in a storage adapter so repeated calls can be
+ * answered without consuming a rate limit token or quota unit.
+ * The cache is best effort: storage or serialization failures count as a
+ * miss and never fail the request.
+ */
+export class ResponseCache<TResponse> {
+  private adapter: StorageAdapter;
+  private serialize: (response: TResponse) => string | Promise<string>;
+  private deserialize: (data: string) => TResponse;
+  private defaultTtlMs: number;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(options: {
+    config: CacheConfig<TResponse>;
+    defaultTtlMs: number;
+  }) {
+    this.adapter = options.config.adapter ?? memoryAdapter();
+    this.serialize = options.config.serialize ?? defaultSerializer.serialize;
+    this.deserialize = options.config.deserialize ??
+      (data => defaultSerializer.deserialize(data) as TResponse);
+    this.defaultTtlMs = options.config.defaultTtlMs ?? options.defaultTtlMs;
+  }
+
+  /**
+   * Look up a cached response
+   * Returns null on a miss
+   */
+  async get(cacheKey: string): Promise<TResponse | null> {
+    try {
+      const data = await this.adapter.get(this.getStorageKey(cacheKey));
+      if (data !== null) {
+        const response = this.deserialize(data);
+        this.hits++;
+        return response;
+      }
+    } catch {
+      // Unreadable entry, treat as a miss
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  /**
+   * Store a response
+   * Serialization happens before returning, so one-shot bodies can be read
+   * from a clone before the caller consumes the original
+   */
+  async set(cacheKey: string, response: TResponse, ttlMs?: number): Promise<void> {
+    try {
+      const data = await this.serialize(response);
+      const ttlSeconds = Math.max(1, Math.ceil((ttlMs ?? this.defaultTtlMs) / 1000));
+      void this.adapter.set(this.getStorageKey(cacheKey), data, ttlSeconds).catch(() => {
+        // Best effort, a failed write only costs a future miss
+      });
+    } catch {
+      // Response could not be serialized, don't cache it
+    }
+  }
+
+  /**
+   * Get hit/miss statistics
+   */
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+
+  /**
+   * Get the storage key for a cache key
+   */
+  private getStorageKey(cacheKey: string): string {
+    return `cache:${cacheKey}`;
+  }
+}
+
+/**
+ * Serializer for fetch `Response` objects
+ * Stores status, headers and body text; the original response is cloned so
+ * its body can still be read by the caller
+ *
+ * @example
+ * ```typescript
+ * const pool = createKeyPool({
+ *   keys: [...],
+ *   cache: { ...responseSerializer },
+ * });
+ * ```
+ */
+export const responseSerializer = {
+  async serialize(response: Response): Promise<string> {
+    return JSON.stringify({
+      status: response.status,
+      statusText: response.statusText,
+      headers: Array.from(response.headers.entries()),
+      body: await response.clone().text(),
+    });
+  },
+
+  deserialize(data: string): Response {
+    const parsed = JSON.parse(data) as {
+      status: number;
+      statusText: string;
+      headers: [string, string][];
+      body: string;
+    };
+    return new Response(parsed.body, {
+      status: parsed.status,
+      statusText: parsed.statusText,
+      headers: parsed.headers,
+    });
+  },
+};
+
+/**
+ * Serializer used when the cache config has none
+ * Fetch `Response` objects go through responseSerializer, anything else is
+ * stored as JSON; entries are tagged so each is restored the way it was stored
+ */
+const defaultSerializer = {
+  async serialize(response: unknown): Promise<string> {
+    if (response instanceof Response) {
+      return JSON.stringify({ type: 'response', data: await responseSerializer.serialize(response) });
+    }
+    return JSON.stringify({ type: 'json', data: response });
+  },
+
+  deserialize(data: string): unknown {
+    const parsed = JSON.parse(data) as { type: 'response' | 'json'; data: unknown };
+    if (parsed.type === 'response') {
+      return responseSerializer.deserialize(parsed.data as string);
+    }
+    return parsed.data;
+  },
+};
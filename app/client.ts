@@ -13,12 +13,35 @@ export type { KeyPool } from './pool.js';
 export type {
   KeyConfig,
   QuotaConfig,
+  GroupConfig,
+  RateLimitConfig,
+  AdaptiveRateConfig,
   PoolConfig,
   ExecuteOptions,
+  ExecutionContext,
+  ExecutionResult,
+  AttemptInfo,
+  BatchOptions,
+  BatchItemResult,
+  BatchResult,
+  RequestPriority,
   CircuitBreakerConfig,
+  RetryBackoffConfig,
+  RetryInfo,
+  HedgeConfig,
+  CacheConfig,
+  DistributedRateLimitConfig,
+  CacheStats,
+  StreamTracker,
+  UsageReport,
+  RateLimitState,
   HealthStatus,
   HealthWarning,
+  GroupStats,
   KeyStats,
+  LimitStats,
+  SelectionCandidate,
+  SelectionStrategy,
   StorageAdapter,
 } from './types.js';
 
@@ -28,10 +51,33 @@ export {
   QueueTimeoutError,
   AllKeysExhaustedError,
   QueueFullError,
+  RequestAbortedError,
+  AttemptTimeoutError,
+  DeadlineExceededError,
   InvalidKeyConfigError,
+  InvalidPoolConfigError,
+  InvalidExecuteOptionsError,
   NoKeysConfiguredError,
 } from './errors.js';
 
+// Response cache
+export { responseSerializer } from './cache.js';
+
+// Streaming
+export { trackStream } from './stream.js';
+
+// Rate limit headers
+export { parseRateLimitHeaders } from './rate-limit-headers.js';
+
+// Selection strategies
+export {
+  registerSelectionStrategy,
+  RoundRobinStrategy,
+  RandomStrategy,
+  LeastRecentlyUsedStrategy,
+  LeastInFlightStrategy,
+} from './strategies.js';
+
 // Storage adapters (client-compatible only)
 export { memoryAdapter, MemoryStorageAdapter } from './storage/memory.js';
 export type { StorageAdapterOptions } from './storage/types.js';
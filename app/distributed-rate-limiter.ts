@@ -0,0 +1,159 @@
+import type { KeyState, StorageAdapter } from './types.js';
+
+/**
+ * Stored state of a shared token bucket
+ */
+interface SharedBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket shared by every process using the same storage
+ *
+ * Each key's rps bucket lives in storage under `ratelimit:<id>` and is
+ * updated with the adapter's `compareAndSet`, retrying when another process
+ * changed it in between. The local bucket in `KeyState` still pre-filters
+ * keys and is synced with the shared bucket after every update, so a key
+ * drained by other processes is skipped until it refills.
+ *
+ * Clocks of different processes are assumed to be close: the bucket's
+ * timestamp never moves backwards, so a process running behind refills
+ * nothing until its clock catches up, and a timestamp further ahead than
+ * `maxClockSkewMs` is treated as stale and replaced.
+ *
+ * When the storage fails, requests fall back to the local bucket alone
+ * rather than failing or counting against the key.
+ */
+export class DistributedRateLimiter {
+  private storage: StorageAdapter;
+  private maxClockSkewMs: number;
+  private maxAttempts: number;
+
+  constructor(options: {
+    storage: StorageAdapter;
+    maxClockSkewMs: number;
+    maxAttempts: number;
+  }) {
+    this.storage = options.storage;
+    this.maxClockSkewMs = options.maxClockSkewMs;
+    this.maxAttempts = options.maxAttempts;
+  }
+
+  /**
+   * Try to consume tokens for a request of the given cost from the key's
+   * shared bucket, holding up to `capacity` tokens and refilling at `rps`
+   * Returns false if the bucket doesn't have enough tokens or stays contended,
+   * and true if the storage fails, leaving the local bucket in charge
+   */
+  async tryConsume(
+    state: KeyState,
+    rps: number,
+    cost: number = 1,
+    capacity: number = rps
+  ): Promise<boolean> {
+    try {
+      return await this.consume(state, rps, cost, capacity);
+    } catch {
+      // Storage is unavailable, the local bucket already admitted the request
+      return true;
+    }
+  }
+
+  /**
+   * Consume from the shared bucket, retrying while other processes change it
+   */
+  private async consume(
+    state: KeyState,
+    rps: number,
+    cost: number,
+    capacity: number
+  ): Promise<boolean> {
+    const key = `ratelimit:${state.config.id}`;
+
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const current = await this.storage.get(key);
+      const now = Date.now();
+      const stored = this.parse(current, capacity, now);
+      const bucket = this.refill(stored, rps, capacity, now);
+
+      if (bucket.tokens < Math.min(cost, capacity)) {
+        if (bucket.updatedAt < stored.updatedAt) {
+          // Replace the stale timestamp so the bucket starts refilling
+          await this.write(key, current, bucket, rps, capacity);
+        }
+        this.syncLocal(state, bucket.tokens);
+        return false;
+      }
+
+      const next: SharedBucket = { tokens: bucket.tokens - cost, updatedAt: bucket.updatedAt };
+      if (await this.write(key, current, next, rps, capacity)) {
+        this.syncLocal(state, next.tokens);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Store a bucket unless another process changed it since it was read
+   * It expires once it would have refilled completely
+   */
+  private async write(
+    key: string,
+    expected: string | null,
+    bucket: SharedBucket,
+    rps: number,
+    capacity: number
+  ): Promise<boolean> {
+    const ttl = Math.ceil((capacity - bucket.tokens) / rps) + 1;
+    return this.storage.compareAndSet!(key, expected, JSON.stringify(bucket), ttl);
+  }
+
+  /**
+   * Read a stored bucket, a missing or invalid one is full
+   */
+  private parse(data: string | null, capacity: number, now: number): SharedBucket {
+    if (data) {
+      try {
+        const parsed = JSON.parse(data) as SharedBucket;
+        if (typeof parsed.tokens === 'number' && typeof parsed.updatedAt === 'number') {
+          return parsed;
+        }
+      } catch {
+        // Invalid data, start with a full bucket
+      }
+    }
+    return { tokens: capacity, updatedAt: now };
+  }
+
+  /**
+   * Refill a bucket up to now, tolerating skew between process clocks
+   */
+  private refill(
+    bucket: SharedBucket,
+    rps: number,
+    capacity: number,
+    now: number
+  ): SharedBucket {
+    if (bucket.updatedAt - now > this.maxClockSkewMs) {
+      // Written by a clock too far ahead to wait for
+      return { tokens: bucket.tokens, updatedAt: now };
+    }
+
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    return {
+      tokens: Math.min(capacity, bucket.tokens + elapsed * rps / 1000),
+      updatedAt: Math.max(bucket.updatedAt, now),
+    };
+  }
+
+  /**
+   * Update the local bucket with the shared bucket's tokens
+   */
+  private syncLocal(state: KeyState, tokens: number): void {
+    state.tokens = tokens;
+    state.lastTokenRefill = new Date();
+  }
+}
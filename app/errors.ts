@@ -51,6 +51,8 @@ export class AllKeysExhaustedError extends KeyrotError {
   public readonly circuitOpenKeys: number;
   /** Number of keys that are rate limited */
   public readonly rateLimitedKeys: number;
+  /** Number of keys at their concurrency limit */
+  public readonly concurrencySaturatedKeys: number;
   /** Total keys in pool */
   public readonly totalKeys: number;
 
@@ -59,18 +61,23 @@ export class AllKeysExhaustedError extends KeyrotError {
     exhaustedKeys: number;
     circuitOpenKeys: number;
     rateLimitedKeys: number;
+    concurrencySaturatedKeys?: number | undefined;
     totalKeys: number;
   }) {
+    const concurrencySaturatedKeys = options.concurrencySaturatedKeys ?? 0;
     super(
       `All ${options.totalKeys} keys are unavailable. ` +
       `Exhausted: ${options.exhaustedKeys}, Circuit open: ${options.circuitOpenKeys}, ` +
-      `Rate limited: ${options.rateLimitedKeys}. Retry after ${options.retryAfterMs}ms.`
+      `Rate limited: ${options.rateLimitedKeys}` +
+      (concurrencySaturatedKeys > 0 ? `, Concurrency saturated: ${concurrencySaturatedKeys}` : '') +
+      `. Retry after ${options.retryAfterMs}ms.`
     );
     this.name = 'AllKeysExhaustedError';
     this.retryAfterMs = options.retryAfterMs;
     this.exhaustedKeys = options.exhaustedKeys;
     this.circuitOpenKeys = options.circuitOpenKeys;
     this.rateLimitedKeys = options.rateLimitedKeys;
+    this.concurrencySaturatedKeys = concurrencySaturatedKeys;
     this.totalKeys = options.totalKeys;
   }
 }
@@ -102,6 +109,65 @@ export class QueueFullError extends KeyrotError {
   }
 }
 
+/**
+ * Thrown when a request is cancelled through its AbortSignal
+ */
+export class RequestAbortedError extends KeyrotError {
+  /** The abort reason from the signal, if any */
+  public readonly reason: unknown;
+
+  constructor(reason?: unknown) {
+    super('Request was aborted');
+    this.name = 'RequestAbortedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown when a single attempt exceeds its attempt timeout
+ * The attempt is abandoned and retried on another key; this error surfaces
+ * only when no attempt succeeds
+ */
+export class AttemptTimeoutError extends KeyrotError {
+  /** The key the attempt was running on */
+  public readonly keyId: string;
+  /** The attempt timeout that was exceeded (in milliseconds) */
+  public readonly timeoutMs: number;
+
+  constructor(options: {
+    keyId: string;
+    timeoutMs: number;
+  }) {
+    super(`Attempt on key "${options.keyId}" timed out after ${options.timeoutMs}ms.`);
+    this.name = 'AttemptTimeoutError';
+    this.keyId = options.keyId;
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a request exceeds its overall deadline (queue wait plus all attempts)
+ */
+export class DeadlineExceededError extends KeyrotError {
+  /** The configured deadline (in milliseconds) */
+  public readonly deadlineMs: number;
+  /** Time elapsed since the request was queued */
+  public readonly elapsedMs: number;
+
+  constructor(options: {
+    deadlineMs: number;
+    elapsedMs: number;
+  }) {
+    super(
+      `Request exceeded its deadline of ${options.deadlineMs}ms ` +
+      `after ${options.elapsedMs}ms.`
+    );
+    this.name = 'DeadlineExceededError';
+    this.deadlineMs = options.deadlineMs;
+    this.elapsedMs = options.elapsedMs;
+  }
+}
+
 /**
  * Thrown when attempting to use an invalid key configuration
  */
@@ -116,6 +182,26 @@ export class InvalidKeyConfigError extends KeyrotError {
   }
 }
 
+/**
+ * Thrown when the pool configuration is invalid
+ */
+export class InvalidPoolConfigError extends KeyrotError {
+  constructor(reason: string) {
+    super(`Invalid pool configuration: ${reason}`);
+    this.name = 'InvalidPoolConfigError';
+  }
+}
+
+/**
+ * Thrown when a request is made with invalid options
+ */
+export class InvalidExecuteOptionsError extends KeyrotError {
+  constructor(reason: string) {
+    super(`Invalid execute options: ${reason}`);
+    this.name = 'InvalidExecuteOptionsError';
+  }
+}
+
 /**
  * Thrown when no keys are configured in the pool
  */
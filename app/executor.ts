@@ -1,43 +1,83 @@
-import type { KeyState, PoolConfig, QueuedRequest } from './types.js';
-import { AllKeysExhaustedError } from './errors.js';
+import type {
+  AttemptInfo,
+  KeyState,
+  PoolConfig,
+  QueuedRequest,
+  RetryInfo,
+  UsageReport,
+} from './types.js';
+import {
+  AllKeysExhaustedError,
+  RequestAbortedError,
+  AttemptTimeoutError,
+  DeadlineExceededError,
+} from './errors.js';
 import { RateLimiter } from './rate-limiter.js';
+import { DistributedRateLimiter } from './distributed-rate-limiter.js';
 import { QuotaTracker } from './quota-tracker.js';
 import { CircuitBreaker } from './circuit-breaker.js';
 import { KeySelector } from './selector.js';
+import { RetryBackoff } from './backoff.js';
+import { trackStream } from './stream.js';
+
+/**
+ * Result of a single attempt on a key
+ */
+type AttemptOutcome<TResponse> =
+  | { state: KeyState; response: TResponse }
+  | { state: KeyState; error: unknown };
 
 /**
  * Request executor with automatic key rotation and retry
  * 
  * Handles:
- * - Key selection and token consumption
+ * - Key selection and token consumption, locally and from shared buckets
  * - 429 detection and retry with different key
  * - Error detection and circuit breaker updates
+ * - Per-attempt timeouts and overall request deadlines
+ * - Backoff between attempts
+ * - Hedging slow attempts onto additional keys
+ * - Deferring success accounting until streamed responses end
+ * - Holding per-key concurrency slots while attempts and streams run
+ * - Parking requests until a key becomes available
  * - Quota sync from response headers
  */
 export class Executor<TResponse> {
   private config: PoolConfig<TResponse>;
   private states: KeyState[];
   private rateLimiter: RateLimiter;
+  private distributedRateLimiter: DistributedRateLimiter | undefined;
   private quotaTracker: QuotaTracker;
   private circuitBreaker: CircuitBreaker;
   private selector: KeySelector;
+  private retryBackoff: RetryBackoff | undefined;
   private maxRetries: number;
+  private parkRequest: ((request: QueuedRequest<TResponse>, delayMs: number) => void) | undefined;
+  private onKeyReleased: (() => void) | undefined;
 
   constructor(options: {
     config: PoolConfig<TResponse>;
     states: KeyState[];
     rateLimiter: RateLimiter;
+    distributedRateLimiter?: DistributedRateLimiter | undefined;
     quotaTracker: QuotaTracker;
     circuitBreaker: CircuitBreaker;
     selector: KeySelector;
+    retryBackoff?: RetryBackoff | undefined;
+    parkRequest?: ((request: QueuedRequest<TResponse>, delayMs: number) => void) | undefined;
+    onKeyReleased?: (() => void) | undefined;
   }) {
     this.config = options.config;
     this.states = options.states;
     this.rateLimiter = options.rateLimiter;
+    this.distributedRateLimiter = options.distributedRateLimiter;
     this.quotaTracker = options.quotaTracker;
     this.circuitBreaker = options.circuitBreaker;
     this.selector = options.selector;
+    this.retryBackoff = options.retryBackoff;
     this.maxRetries = options.config.maxRetries ?? options.states.length;
+    this.parkRequest = options.parkRequest;
+    this.onKeyReleased = options.onKeyReleased;
   }
 
   /**
@@ -48,20 +88,58 @@ export class Executor<TResponse> {
     let lastError: Error | null = null;
     let retryCount = 0;
 
+    request.trace.startedAt ??= new Date();
+
     while (retryCount < this.maxRetries) {
+      // Stop retrying once the caller has given up
+      if (request.signal?.aborted) {
+        request.reject(new RequestAbortedError(request.signal.reason));
+        return;
+      }
+
+      // Stop retrying once the deadline has passed
+      const deadlineError = this.getDeadlineError(request);
+      if (deadlineError) {
+        request.reject(deadlineError);
+        return;
+      }
+
       // Select next available key
-      const state = this.selector.selectKey(this.states, triedKeys);
+      const state = this.selector.selectKey(
+        this.states,
+        triedKeys,
+        request.cost,
+        request.estimatedTokens
+      );
 
       if (!state) {
         // No keys available
-        const breakdown = this.selector.getAvailabilityBreakdown(this.states);
-        const retryAfterMs = this.selector.getNextAvailableTime(this.states);
+        const breakdown = this.selector.getAvailabilityBreakdown(
+          this.states,
+          request.cost,
+          request.estimatedTokens
+        );
+        const retryAfterMs = this.selector.getNextAvailableTime(
+          this.states,
+          request.cost,
+          request.estimatedTokens
+        );
+
+        // Wait in the queue for a key to recover if it can happen in time.
+        // A key at its concurrency limit frees up as soon as one of its
+        // attempts ends, which wakes parked requests
+        const waitMs = breakdown.concurrencySaturated > 0 ? 0 : retryAfterMs;
+        if (this.parkRequest && this.shouldWaitForKey(request, waitMs)) {
+          this.parkRequest(request, retryAfterMs);
+          return;
+        }
 
         lastError = new AllKeysExhaustedError({
           retryAfterMs,
           exhaustedKeys: breakdown.quotaExhausted,
           circuitOpenKeys: breakdown.circuitOpen,
           rateLimitedKeys: breakdown.rateLimited,
+          concurrencySaturatedKeys: breakdown.concurrencySaturated,
           totalKeys: this.states.length,
         });
 
@@ -72,41 +150,107 @@ export class Executor<TResponse> {
 
       triedKeys.add(state.config.id);
 
+      // The key that produced the outcome, which differs from the selected
+      // key when a hedged attempt wins
+      let attemptState = state;
+
       try {
         // Consume rate limit token
-        if (!this.rateLimiter.tryConsume(state)) {
+        if (!this.rateLimiter.tryConsume(state, request.cost, request.estimatedTokens)) {
           // Key is rate limited, try next
           retryCount++;
           continue;
         }
 
+        // Hold a concurrency slot on the key until the attempt ends
+        this.acquire(state);
+
+        let consumed: boolean;
+        try {
+          consumed = await this.tryConsumeShared(state, request);
+        } catch (error) {
+          // No attempt was started, give the slot back
+          this.release(state);
+          throw error;
+        }
+
+        if (!consumed) {
+          // Key was drained by other processes, try next
+          this.release(state);
+          retryCount++;
+          continue;
+        }
+
         // Execute the request
-        const response = await request.execute(state.config.value);
+        const outcome = request.hedge
+          ? await this.runHedged(request, state, triedKeys)
+          : await this.settleAttempt(request, state);
+        attemptState = outcome.state;
+
+        if ('error' in outcome) {
+          throw outcome.error;
+        }
+
+        const response = outcome.response;
 
         // Check for rate limiting
         if (this.config.isRateLimited?.(response)) {
-          this.handleRateLimited(state, response);
+          this.handleRateLimited(attemptState, response);
           retryCount++;
+          await this.beforeRetry(request, attemptState, retryCount, 'rate_limited');
           continue;
         }
 
         // Check for errors that should trigger rotation
         if (this.config.isError?.(response)) {
-          this.circuitBreaker.recordFailure(state);
+          this.circuitBreaker.recordFailure(attemptState);
           retryCount++;
+          await this.beforeRetry(request, attemptState, retryCount, 'error');
           continue;
         }
 
+        // Nobody will read the stream of a request that already timed out or
+        // was aborted, so settle the key now instead of when it ends
+        if (request.stream && request.settled) {
+          this.release(attemptState);
+          this.handleSuccess(attemptState, response, request);
+          return;
+        }
+
+        // Streams are only known to have succeeded once they end
+        if (request.stream) {
+          request.resolve(this.trackStream(attemptState, response, request));
+          return;
+        }
+
         // Success!
-        this.handleSuccess(state, response);
+        this.handleSuccess(attemptState, response, request);
         request.resolve(response);
         return;
 
       } catch (error) {
+        // An abort is not the key's fault, don't count it against the circuit
+        if (request.signal?.aborted) {
+          request.reject(new RequestAbortedError(request.signal.reason));
+          return;
+        }
+
+        // The deadline cut the attempt short, there is no time left to retry
+        if (error instanceof DeadlineExceededError) {
+          request.reject(error);
+          return;
+        }
+
         // Request threw an error (network error, timeout, etc.)
-        this.circuitBreaker.recordFailure(state);
+        this.circuitBreaker.recordFailure(attemptState);
         lastError = error instanceof Error ? error : new Error(String(error));
         retryCount++;
+        await this.beforeRetry(
+          request,
+          attemptState,
+          retryCount,
+          error instanceof AttemptTimeoutError ? 'timeout' : 'error'
+        );
       }
     }
 
@@ -114,21 +258,511 @@ export class Executor<TResponse> {
     if (lastError) {
       request.reject(lastError);
     } else {
-      const breakdown = this.selector.getAvailabilityBreakdown(this.states);
+      const breakdown = this.selector.getAvailabilityBreakdown(
+        this.states,
+        request.cost,
+        request.estimatedTokens
+      );
       request.reject(new AllKeysExhaustedError({
-        retryAfterMs: this.selector.getNextAvailableTime(this.states),
+        retryAfterMs: this.selector.getNextAvailableTime(
+          this.states,
+          request.cost,
+          request.estimatedTokens
+        ),
         exhaustedKeys: breakdown.quotaExhausted,
         circuitOpenKeys: breakdown.circuitOpen,
         rateLimitedKeys: breakdown.rateLimited,
+        concurrencySaturatedKeys: breakdown.concurrencySaturated,
         totalKeys: this.states.length,
       }));
     }
   }
 
+  /**
+   * Run a single attempt and capture its response or error
+   * The attempt is added to the request's trace unless it was cancelled,
+   * in which case the canceller records it
+   */
+  private async settleAttempt(
+    request: QueuedRequest<TResponse>,
+    state: KeyState,
+    cancelSignal?: AbortSignal
+  ): Promise<AttemptOutcome<TResponse>> {
+    const startedAt = Date.now();
+    const outcome = await this.runAttempt(request, state, cancelSignal).then(
+      response => ({ state, response }),
+      (error: unknown) => ({ state, error })
+    );
+
+    // A successful stream holds its slot until the stream ends
+    const streaming = request.stream && !cancelSignal?.aborted && this.isSuccessful(outcome);
+    if (!streaming) {
+      this.release(state);
+    }
+
+    if (!cancelSignal?.aborted) {
+      request.trace.attempts.push({
+        keyId: state.config.id,
+        outcome: this.getAttemptOutcome(request, outcome),
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Classify how an attempt ended
+   */
+  private getAttemptOutcome(
+    request: QueuedRequest<TResponse>,
+    outcome: AttemptOutcome<TResponse>
+  ): AttemptInfo['outcome'] {
+    if ('error' in outcome) {
+      if (request.signal?.aborted) {
+        return 'aborted';
+      }
+      if (
+        outcome.error instanceof AttemptTimeoutError ||
+        outcome.error instanceof DeadlineExceededError
+      ) {
+        return 'timeout';
+      }
+      return 'error';
+    }
+
+    if (this.config.isRateLimited?.(outcome.response)) {
+      return 'rate_limited';
+    }
+    if (this.config.isError?.(outcome.response)) {
+      return 'error';
+    }
+    return 'success';
+  }
+
+  /**
+   * Run an attempt and launch parallel attempts on other keys while it is slow
+   * 
+   * Every `hedge.afterMs` without a successful outcome, another key is chosen
+   * by the selector (up to `hedge.maxHedges` extra attempts). The first
+   * successful outcome wins and the other attempts are aborted; they were
+   * already sent upstream, so they are still charged for their cost. Failed
+   * attempts are recorded against their keys, and if every attempt fails the
+   * last outcome is returned for the regular retry handling. A hedge still
+   * consuming from the shared rate limit counts as an attempt in progress.
+   */
+  private runHedged(
+    request: QueuedRequest<TResponse>,
+    primary: KeyState,
+    triedKeys: Set<string>
+  ): Promise<AttemptOutcome<TResponse>> {
+    const hedge = request.hedge!;
+    const maxHedges = hedge.maxHedges ?? 1;
+
+    return new Promise(resolve => {
+      const running = new Map<KeyState, { controller: AbortController; startedAt: number }>();
+      // Hedges waiting on the shared rate limit before they can launch
+      let pendingHedges = 0;
+      // A failure held back until a pending hedge launches or gives up
+      let heldFailure: AttemptOutcome<TResponse> | null = null;
+      let hedges = 0;
+      let settled = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = (outcome: AttemptOutcome<TResponse>) => {
+        settled = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+
+        // Abort the losers and charge them for the call already made
+        for (const [state, { controller, startedAt }] of running) {
+          controller.abort();
+          this.quotaTracker.increment(state, request.cost);
+          request.trace.attempts.push({
+            keyId: state.config.id,
+            outcome: 'aborted',
+            durationMs: Date.now() - startedAt,
+          });
+        }
+        running.clear();
+
+        resolve(outcome);
+      };
+
+      const launch = (state: KeyState) => {
+        const controller = new AbortController();
+        running.set(state, { controller, startedAt: Date.now() });
+
+        void this.settleAttempt(request, state, controller.signal).then(outcome => {
+          if (settled) {
+            return;
+          }
+          running.delete(state);
+
+          if (this.isSuccessful(outcome) || running.size + pendingHedges === 0) {
+            finish(outcome);
+            return;
+          }
+
+          if (running.size === 0) {
+            // Only a pending hedge is left, it decides what happens to this failure
+            heldFailure = outcome;
+            return;
+          }
+
+          // Other attempts are still running, record this failure and wait
+          this.recordFailedAttempt(request, outcome);
+        });
+      };
+
+      const settlePendingHedge = (state: KeyState, consumed: boolean) => {
+        pendingHedges--;
+        if (consumed && !settled) {
+          if (heldFailure) {
+            this.recordFailedAttempt(request, heldFailure);
+            heldFailure = null;
+          }
+          launch(state);
+          return;
+        }
+
+        this.release(state);
+        if (!settled && heldFailure && running.size + pendingHedges === 0) {
+          finish(heldFailure);
+        }
+      };
+
+      const scheduleHedge = () => {
+        timer = setTimeout(() => {
+          timer = null;
+          if (settled || request.signal?.aborted) {
+            return;
+          }
+
+          const state = this.selector.selectKey(
+            this.states,
+            triedKeys,
+            request.cost,
+            request.estimatedTokens
+          );
+          if (state && this.rateLimiter.tryConsume(state, request.cost, request.estimatedTokens)) {
+            triedKeys.add(state.config.id);
+            hedges++;
+            this.acquire(state);
+            if (this.distributedRateLimiter) {
+              pendingHedges++;
+              void this.tryConsumeShared(state, request).then(
+                consumed => settlePendingHedge(state, consumed),
+                () => settlePendingHedge(state, false)
+              );
+            } else {
+              launch(state);
+            }
+          }
+
+          if (hedges < maxHedges) {
+            scheduleHedge();
+          }
+        }, hedge.afterMs);
+      };
+
+      launch(primary);
+      if (maxHedges > 0) {
+        scheduleHedge();
+      }
+    });
+  }
+
+  /**
+   * Take one of the key's concurrency slots
+   */
+  private acquire(state: KeyState): void {
+    state.inFlight++;
+  }
+
+  /**
+   * Give back one of the key's concurrency slots, waking requests waiting for it
+   */
+  private release(state: KeyState): void {
+    state.inFlight = Math.max(0, state.inFlight - 1);
+    if (state.config.maxConcurrent !== undefined) {
+      this.onKeyReleased?.();
+    }
+  }
+
+  /**
+   * Consume rate limit tokens for a request from the key's shared bucket
+   * Always succeeds when rate limiting isn't distributed
+   */
+  private async tryConsumeShared(
+    state: KeyState,
+    request: QueuedRequest<TResponse>
+  ): Promise<boolean> {
+    const rps = this.rateLimiter.getRps(state);
+    if (!this.distributedRateLimiter || !rps) {
+      return true;
+    }
+    return this.distributedRateLimiter.tryConsume(
+      state,
+      rps,
+      request.cost,
+      this.rateLimiter.getCapacity(state)
+    );
+  }
+
+  /**
+   * Check if an attempt outcome is a successful response
+   */
+  private isSuccessful(outcome: AttemptOutcome<TResponse>): boolean {
+    if ('error' in outcome) {
+      return false;
+    }
+    return (
+      !this.config.isRateLimited?.(outcome.response) &&
+      !this.config.isError?.(outcome.response)
+    );
+  }
+
+  /**
+   * Record a failed attempt against its key without retrying
+   */
+  private recordFailedAttempt(
+    request: QueuedRequest<TResponse>,
+    outcome: AttemptOutcome<TResponse>
+  ): void {
+    if ('error' in outcome) {
+      // Aborts and deadlines are not the key's fault
+      if (!request.signal?.aborted && !(outcome.error instanceof DeadlineExceededError)) {
+        this.circuitBreaker.recordFailure(outcome.state);
+      }
+      return;
+    }
+
+    if (this.config.isRateLimited?.(outcome.response)) {
+      this.handleRateLimited(outcome.state, outcome.response);
+    } else {
+      this.circuitBreaker.recordFailure(outcome.state);
+    }
+  }
+
+  /**
+   * Run a single attempt on a key, bounded by the attempt timeout and the
+   * request deadline. The attempt gets its own signal, aborted when the
+   * caller aborts, the attempt times out or the cancel signal fires
+   */
+  private async runAttempt(
+    request: QueuedRequest<TResponse>,
+    state: KeyState,
+    cancelSignal?: AbortSignal
+  ): Promise<TResponse> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(request.signal?.reason);
+    const onCancel = () => controller.abort(cancelSignal?.reason);
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    cancelSignal?.addEventListener('abort', onCancel, { once: true });
+
+    const attemptTimeoutMs = request.attemptTimeoutMs ?? this.config.defaultAttemptTimeoutMs;
+    const deadlineRemaining = request.deadlineMs !== undefined
+      ? request.queuedAt.getTime() + request.deadlineMs - Date.now()
+      : Infinity;
+    const timeoutMs = Math.min(attemptTimeoutMs ?? Infinity, deadlineRemaining);
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    try {
+      const attempt = request.execute(state.config.value, {
+        keyId: state.config.id,
+        keyValue: state.config.value,
+        metadata: state.config.metadata ?? {},
+        attempt: ++request.attempts,
+        requestId: request.id,
+        remainingMs: request.deadlineMs !== undefined ? Math.max(0, deadlineRemaining) : null,
+        signal: controller.signal,
+      });
+
+      if (timeoutMs === Infinity) {
+        return await attempt;
+      }
+
+      const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          const error = timeoutMs === deadlineRemaining
+            ? new DeadlineExceededError({
+                deadlineMs: request.deadlineMs!,
+                elapsedMs: Date.now() - request.queuedAt.getTime(),
+              })
+            : new AttemptTimeoutError({
+                keyId: state.config.id,
+                timeoutMs,
+              });
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      });
+
+      return await Promise.race([attempt, timeout]);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      request.signal?.removeEventListener('abort', onAbort);
+      cancelSignal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  /**
+   * Report a retry and wait out the backoff delay before the next attempt
+   * The delay is capped by the request's remaining wait time and deadline,
+   * and cut short if the request is aborted
+   */
+  private async beforeRetry(
+    request: QueuedRequest<TResponse>,
+    state: KeyState,
+    attempt: number,
+    reason: RetryInfo['reason']
+  ): Promise<void> {
+    // No further attempt will be made
+    if (attempt >= this.maxRetries) {
+      return;
+    }
+
+    const elapsedMs = Date.now() - request.queuedAt.getTime();
+    const budgetMs = Math.min(request.maxWaitMs, request.deadlineMs ?? Infinity) - elapsedMs;
+    const delayMs = Math.max(
+      0,
+      Math.min(this.retryBackoff?.getDelay(attempt) ?? 0, budgetMs)
+    );
+
+    this.config.onRetry?.({
+      keyId: state.config.id,
+      attempt,
+      reason,
+      delayMs,
+    });
+
+    if (delayMs === 0 || request.signal?.aborted) {
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        request.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Check if a request should wait for a key instead of failing
+   * Only recoverable states qualify: at least one key must still have quota,
+   * no key may be available right now, and the wait must fit within the
+   * request's remaining wait time and deadline
+   */
+  private shouldWaitForKey(request: QueuedRequest<TResponse>, waitMs: number): boolean {
+    if (!this.config.waitForAvailableKey) {
+      return false;
+    }
+
+    // Keys that are available but already tried won't be helped by waiting
+    const availableCount = this.selector.getAvailableCount(
+      this.states,
+      request.cost,
+      request.estimatedTokens
+    );
+    if (availableCount > 0) {
+      return false;
+    }
+
+    if (!this.states.some(state => this.quotaTracker.hasQuota(state, request.cost))) {
+      return false;
+    }
+
+    const elapsedMs = Date.now() - request.queuedAt.getTime();
+    const budgetMs = Math.min(
+      request.maxWaitMs,
+      request.deadlineMs ?? Infinity
+    ) - elapsedMs;
+
+    return waitMs < budgetMs;
+  }
+
+  /**
+   * Get the error for a request whose deadline has passed, or null
+   */
+  private getDeadlineError(request: QueuedRequest<TResponse>): DeadlineExceededError | null {
+    if (request.deadlineMs === undefined) {
+      return null;
+    }
+
+    const elapsedMs = Date.now() - request.queuedAt.getTime();
+    if (elapsedMs < request.deadlineMs) {
+      return null;
+    }
+
+    return new DeadlineExceededError({
+      deadlineMs: request.deadlineMs,
+      elapsedMs,
+    });
+  }
+
+  /**
+   * Wrap a streamed response to record the key's outcome when it ends
+   * A stream failing part-way counts as a failure for the key, but the call
+   * was still made so it is charged for its cost either way. If wrapping
+   * throws, the slot is given back and the error fails the attempt
+   */
+  private trackStream(
+    state: KeyState,
+    response: TResponse,
+    request: QueuedRequest<TResponse>
+  ): TResponse {
+    const wrap = this.config.trackStream ?? trackStream;
+    let settled = false;
+
+    try {
+      return wrap(response, {
+        complete: () => {
+          if (settled) {
+            return;
+          }
+          settled = true;
+          this.release(state);
+          this.handleSuccess(state, response, request);
+        },
+        fail: () => {
+          if (settled) {
+            return;
+          }
+          settled = true;
+          this.release(state);
+          this.circuitBreaker.recordFailure(state);
+          state.lastUsed = new Date();
+          this.quotaTracker.increment(state, request.cost);
+        },
+      });
+    } catch (error) {
+      if (!settled) {
+        settled = true;
+        this.release(state);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Handle a rate-limited response
    */
   private handleRateLimited(state: KeyState, response: TResponse): void {
+    // Learn from the provider's limit on adaptive keys
+    this.rateLimiter.recordRateLimited(state);
+    this.syncRateLimitState(state, response);
+
     // Get retry-after from response
     const retryAfter = this.config.getRetryAfter?.(response);
     
@@ -144,15 +778,31 @@ export class Executor<TResponse> {
   /**
    * Handle a successful response
    */
-  private handleSuccess(state: KeyState, response: TResponse): void {
-    // Record success for circuit breaker
+  private handleSuccess(
+    state: KeyState,
+    response: TResponse,
+    request: QueuedRequest<TResponse>
+  ): void {
+    // Record success for circuit breaker and adaptive rate limiting
     this.circuitBreaker.recordSuccess(state);
+    this.rateLimiter.recordSuccess(state);
 
     // Update last used
     state.lastUsed = new Date();
 
-    // Increment quota
-    this.quotaTracker.increment(state);
+    // Charge the actual usage when the response reports it, else the estimate
+    const usage = this.config.getUsage?.(response) ?? null;
+    this.quotaTracker.increment(state, this.getQuotaUsage(usage, request.cost));
+
+    // Correct the units reserved from the key's limits with the actual usage
+    if (typeof usage === 'object' && usage !== null) {
+      if (usage.requests !== undefined) {
+        this.rateLimiter.adjust(state, 'requests', usage.requests - request.cost);
+      }
+      if (usage.tokens !== undefined) {
+        this.rateLimiter.adjust(state, 'tokens', usage.tokens - request.estimatedTokens);
+      }
+    }
 
     // Sync quota from response headers if available
     const remaining = this.config.getQuotaRemaining?.(response);
@@ -160,10 +810,37 @@ export class Executor<TResponse> {
       this.quotaTracker.syncFromResponse(state, remaining);
     }
 
+    // Sync the provider's rate limit window from response headers if available
+    this.syncRateLimitState(state, response);
+
     // Clear any temporary rate limit
     state.rateLimitedUntil = null;
   }
 
+  /**
+   * Sync a key with the provider's rate limit window reported by a response
+   */
+  private syncRateLimitState(state: KeyState, response: TResponse): void {
+    const rateLimit = this.config.getRateLimitState?.(response);
+    if (rateLimit) {
+      this.rateLimiter.syncFromResponse(state, rateLimit);
+    }
+  }
+
+  /**
+   * Get the quota units to charge for a reported usage
+   * A report with both fields is charged its tokens
+   */
+  private getQuotaUsage(usage: number | UsageReport | null, cost: number): number {
+    if (usage === null) {
+      return cost;
+    }
+    if (typeof usage === 'number') {
+      return usage;
+    }
+    return usage.tokens ?? usage.requests ?? cost;
+  }
+
   /**
    * Update states reference (for dynamic key updates)
    */
@@ -1,4 +1,11 @@
-import type { KeyState, HealthStatus, HealthWarning } from './types.js';
+import type {
+  KeyState,
+  GroupState,
+  GroupStats,
+  HealthStatus,
+  HealthWarning,
+} from './types.js';
+import { RateLimiter } from './rate-limiter.js';
 import { QuotaTracker } from './quota-tracker.js';
 import { CircuitBreaker } from './circuit-breaker.js';
 import { KeySelector } from './selector.js';
@@ -10,17 +17,23 @@ import { KeySelector } from './selector.js';
  * quota usage, and circuit breaker states.
  */
 export class HealthMonitor {
+  private rateLimiter: RateLimiter;
+  private groups: Map<string, GroupState>;
   private quotaTracker: QuotaTracker;
   private circuitBreaker: CircuitBreaker;
   private selector: KeySelector;
   private warningThreshold: number;
 
   constructor(options: {
+    rateLimiter: RateLimiter;
+    groups?: Map<string, GroupState> | undefined;
     quotaTracker: QuotaTracker;
     circuitBreaker: CircuitBreaker;
     selector: KeySelector;
     warningThreshold: number;
   }) {
+    this.rateLimiter = options.rateLimiter;
+    this.groups = options.groups ?? new Map();
     this.quotaTracker = options.quotaTracker;
     this.circuitBreaker = options.circuitBreaker;
     this.selector = options.selector;
@@ -37,6 +50,7 @@ export class HealthMonitor {
 
     // Calculate effective capacity
     let effectiveRps = 0;
+    const groupRps = new Map<string, number>();
     let effectiveQuotaRemaining = 0;
     let effectiveQuotaTotal = 0;
 
@@ -49,8 +63,15 @@ export class HealthMonitor {
 
       // Only count available keys for effective values
       if (this.selector.isKeyAvailable(state)) {
-        if (state.config.rps) {
-          effectiveRps += state.config.rps;
+        const rps = this.rateLimiter.getRps(state);
+        if (rps && state.config.group) {
+          // Grouped keys are capped by their group below
+          groupRps.set(
+            state.config.group,
+            (groupRps.get(state.config.group) ?? 0) + rps
+          );
+        } else if (rps) {
+          effectiveRps += rps;
         }
         
         const remaining = this.quotaTracker.getRemaining(state);
@@ -60,6 +81,15 @@ export class HealthMonitor {
       }
     }
 
+    // Keys in a group don't add throughput beyond the group's limits
+    for (const [groupId, rps] of groupRps) {
+      const group = this.groups.get(groupId);
+      effectiveRps += group ? Math.min(rps, this.rateLimiter.getGroupRps(group)) : rps;
+    }
+
+    // Adding keys doesn't add throughput beyond the global limits
+    effectiveRps = Math.min(effectiveRps, this.rateLimiter.getGlobalRps());
+
     // Determine status
     const status = this.calculateStatus(availableKeys, totalKeys);
 
@@ -73,10 +103,27 @@ export class HealthMonitor {
       effectiveRps,
       effectiveQuotaRemaining,
       effectiveQuotaTotal,
+      groups: this.getGroupStats(states),
       warnings,
     };
   }
 
+  /**
+   * Get usage statistics for each key group
+   */
+  private getGroupStats(states: KeyState[]): GroupStats[] {
+    return Array.from(this.groups.values()).map(group => {
+      const quotaRemaining = this.quotaTracker.getGroupRemaining(group);
+      return {
+        id: group.id,
+        keyCount: states.filter(state => state.config.group === group.id).length,
+        quotaUsed: group.quotaUsed,
+        quotaRemaining,
+        isExhausted: quotaRemaining <= 0,
+      };
+    });
+  }
+
   /**
    * Calculate the health status based on available capacity
    */
@@ -3,17 +3,39 @@ import type {
   KeyConfig,
   KeyState,
   KeyStats,
+  GroupConfig,
+  GroupState,
+  AdaptiveRateConfig,
+  RateLimitConfig,
   HealthStatus,
+  CacheStats,
   ExecuteOptions,
+  ExecutionContext,
+  ExecutionResult,
+  RequestTrace,
+  BatchOptions,
+  BatchResult,
+  RequestPriority,
   CircuitBreakerConfig,
+  RetryBackoffConfig,
 } from './types.js';
-import { NoKeysConfiguredError, InvalidKeyConfigError } from './errors.js';
+import {
+  NoKeysConfiguredError,
+  InvalidKeyConfigError,
+  InvalidPoolConfigError,
+  RequestAbortedError,
+} from './errors.js';
 import { RateLimiter } from './rate-limiter.js';
+import { DistributedRateLimiter } from './distributed-rate-limiter.js';
 import { QuotaTracker } from './quota-tracker.js';
 import { CircuitBreaker } from './circuit-breaker.js';
 import { KeySelector } from './selector.js';
+import { createSelectionStrategy } from './strategies.js';
 import { RequestQueue } from './queue.js';
 import { Executor } from './executor.js';
+import { RetryBackoff } from './backoff.js';
+import { ResponseCache } from './cache.js';
+import { runBatch } from './batch.js';
 import { HealthMonitor } from './health.js';
 import { memoryAdapter } from './storage/memory.js';
 
@@ -23,13 +45,39 @@ import { memoryAdapter } from './storage/memory.js';
 const DEFAULTS = {
   maxQueueSize: 1000,
   defaultMaxWaitMs: 30000,
+  maxConcurrency: 1,
+  priorityAgingMs: 10000,
+  cacheTtlMs: 60000,
   warningThreshold: 0.8,
+  strategy: 'round-robin',
   circuitBreaker: {
     failureThreshold: 5,
     resetTimeoutMs: 60000,
   } satisfies CircuitBreakerConfig,
+  retryBackoff: {
+    baseMs: 100,
+    maxMs: 10000,
+    multiplier: 2,
+    jitter: 'full',
+  } satisfies Required<RetryBackoffConfig>,
+  distributedRateLimit: {
+    maxClockSkewMs: 1000,
+    maxAttempts: 5,
+  },
 };
 
+/**
+ * An execution shared by identical concurrent calls
+ */
+interface SharedExecution<TResponse> {
+  dedupeKey: string;
+  promise: Promise<TResponse>;
+  /** Aborts the execution once every caller has aborted */
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  callers: number;
+}
+
 /**
  * Key pool interface
  */
@@ -39,10 +87,31 @@ export interface KeyPool<TResponse> {
    * Automatically selects a key, handles retries, and manages quotas
    */
   execute(
-    fn: (keyValue: string) => Promise<TResponse>,
+    fn: (keyValue: string, context: ExecutionContext) => Promise<TResponse>,
     options?: ExecuteOptions
   ): Promise<TResponse>;
 
+  /**
+   * Execute a request and report which key served it, every attempt made
+   * and how long the request waited and took. Always runs through the pool,
+   * so cache and coalescing options are not available
+   */
+  executeWithMeta(
+    fn: (keyValue: string, context: ExecutionContext) => Promise<TResponse>,
+    options?: Omit<ExecuteOptions, 'dedupeKey' | 'cacheKey' | 'cacheTtlMs'>
+  ): Promise<ExecutionResult<TResponse>>;
+
+  /**
+   * Execute a request for each item with bounded fan-out
+   * Items are fed to the queue as earlier ones settle instead of all at once,
+   * and every item's outcome is reported instead of failing the whole batch
+   */
+  executeBatch<TItem>(
+    items: TItem[],
+    fn: (item: TItem, keyValue: string, context: ExecutionContext) => Promise<TResponse>,
+    options?: BatchOptions
+  ): Promise<BatchResult<TResponse>>;
+
   /**
    * Get the current health status of the pool
    */
@@ -58,10 +127,17 @@ export interface KeyPool<TResponse> {
    */
   getAllKeyStats(): KeyStats[];
 
+  /**
+   * Get response cache hit/miss statistics
+   * Returns null if no cache is configured
+   */
+  getCacheStats(): CacheStats | null;
+
   /**
    * Get the current queue size
+   * When a priority is given, only requests in that lane are counted
    */
-  getQueueSize(): number;
+  getQueueSize(priority?: RequestPriority): number;
 
   /**
    * Add a key to the pool dynamically
@@ -106,20 +182,66 @@ export function createKeyPool<TResponse = Response>(
   }
 
   for (const key of config.keys) {
-    validateKeyConfig(key);
+    validateKeyConfig(key, config.groups);
+  }
+
+  const globalLimitsError = getLimitsError(config.globalLimits ?? []);
+  if (globalLimitsError) {
+    throw new InvalidPoolConfigError(`Global limits: ${globalLimitsError}`);
+  }
+
+  for (const [id, group] of Object.entries(config.groups ?? {})) {
+    validateGroupConfig(id, group);
   }
 
   // Initialize storage
   const storage = config.storage ?? memoryAdapter();
 
+  // Initialize the selection strategy
+  const strategyConfig = config.strategy ?? DEFAULTS.strategy;
+  const strategy = typeof strategyConfig === 'string'
+    ? createSelectionStrategy(strategyConfig)
+    : strategyConfig;
+  if (!strategy) {
+    throw new InvalidPoolConfigError(`Unknown selection strategy: ${String(strategyConfig)}`);
+  }
+
+  // Initialize distributed rate limiting
+  let distributedRateLimiter: DistributedRateLimiter | undefined;
+  if (config.distributedRateLimit) {
+    const sharedStorage = config.distributedRateLimit.storage ?? storage;
+    if (!sharedStorage.compareAndSet) {
+      throw new InvalidPoolConfigError(
+        'Distributed rate limiting requires a storage adapter with compareAndSet'
+      );
+    }
+    distributedRateLimiter = new DistributedRateLimiter({
+      storage: sharedStorage,
+      maxClockSkewMs:
+        config.distributedRateLimit.maxClockSkewMs ?? DEFAULTS.distributedRateLimit.maxClockSkewMs,
+      maxAttempts:
+        config.distributedRateLimit.maxAttempts ?? DEFAULTS.distributedRateLimit.maxAttempts,
+    });
+  }
+
+  // Initialize group states
+  const groups = new Map<string, GroupState>(
+    Object.entries(config.groups ?? {}).map(([id, group]) => [id, createGroupState(id, group)])
+  );
+
   // Initialize components
-  const rateLimiter = new RateLimiter();
+  const rateLimiter = new RateLimiter({
+    globalLimits: config.globalLimits,
+    groups,
+    storage,
+  });
 
   const quotaTracker = new QuotaTracker({
     storage,
     warningThreshold: config.warningThreshold ?? DEFAULTS.warningThreshold,
     onWarning: config.onWarning,
     onKeyExhausted: config.onKeyExhausted,
+    groups,
   });
 
   const circuitBreakerConfig = {
@@ -136,15 +258,26 @@ export function createKeyPool<TResponse = Response>(
   const states: KeyState[] = config.keys.map(key => createKeyState(key));
 
   // Load persisted state - store the promise so execute() can await it
-  const initPromise = Promise.all(
-    states.map(state => quotaTracker.loadState(state))
-  );
+  const initPromise = Promise.all([
+    ...states.map(state => quotaTracker.loadState(state)),
+    ...states.map(state => rateLimiter.loadState(state)),
+    ...Array.from(groups.values()).map(group => quotaTracker.loadGroupState(group)),
+  ]);
 
   // Initialize selector
   const selector = new KeySelector({
     rateLimiter,
     quotaTracker,
     circuitBreaker,
+    strategy,
+  });
+
+  // Initialize queue
+  const queue = new RequestQueue<TResponse>({
+    maxSize: config.maxQueueSize ?? DEFAULTS.maxQueueSize,
+    defaultMaxWaitMs: config.defaultMaxWaitMs ?? DEFAULTS.defaultMaxWaitMs,
+    maxConcurrency: config.maxConcurrency ?? DEFAULTS.maxConcurrency,
+    priorityAgingMs: config.priorityAgingMs ?? DEFAULTS.priorityAgingMs,
   });
 
   // Initialize executor
@@ -152,15 +285,15 @@ export function createKeyPool<TResponse = Response>(
     config,
     states,
     rateLimiter,
+    distributedRateLimiter,
     quotaTracker,
     circuitBreaker,
     selector,
-  });
-
-  // Initialize queue
-  const queue = new RequestQueue<TResponse>({
-    maxSize: config.maxQueueSize ?? DEFAULTS.maxQueueSize,
-    defaultMaxWaitMs: config.defaultMaxWaitMs ?? DEFAULTS.defaultMaxWaitMs,
+    retryBackoff: config.retryBackoff
+      ? new RetryBackoff({ config: { ...DEFAULTS.retryBackoff, ...config.retryBackoff } })
+      : undefined,
+    parkRequest: (request, delayMs) => queue.park(request, delayMs),
+    onKeyReleased: () => queue.triggerProcess(),
   });
 
   // Set up queue processing
@@ -168,8 +301,109 @@ export function createKeyPool<TResponse = Response>(
     await executor.executeRequest(request);
   });
 
+  // In-flight executions by dedupe key, shared by identical concurrent calls
+  const inFlightByDedupeKey = new Map<string, SharedExecution<TResponse>>();
+
+  // Initialize response cache
+  const cache = config.cache
+    ? new ResponseCache<TResponse>({
+        config: config.cache,
+        defaultTtlMs: DEFAULTS.cacheTtlMs,
+      })
+    : null;
+
+  /**
+   * Run a request through the queue, joining an identical in-flight call
+   */
+  async function run(
+    fn: (keyValue: string, context: ExecutionContext) => Promise<TResponse>,
+    options?: ExecuteOptions
+  ): Promise<TResponse> {
+    // A stream can only be read once, so it can't be shared
+    const dedupeKey = options?.stream ? undefined : options?.dedupeKey;
+    if (dedupeKey === undefined) {
+      // Ensure state is loaded before accepting requests
+      // This awaits on first call; subsequent calls return immediately (promise already resolved)
+      await initPromise;
+      return queue.enqueue(fn, options);
+    }
+
+    if (options?.signal?.aborted) {
+      throw new RequestAbortedError(options.signal.reason);
+    }
+
+    // Join an identical call that is already in flight
+    const existing = inFlightByDedupeKey.get(dedupeKey);
+    if (existing) {
+      return join(existing, options?.signal, true);
+    }
+
+    // The shared execution runs until every caller has given up
+    const controller = new AbortController();
+    const shared: SharedExecution<TResponse> = {
+      dedupeKey,
+      promise: initPromise
+        .then(() => queue.enqueue(fn, { ...options, signal: controller.signal }))
+        .finally(() => unshare(shared)),
+      controller,
+      callers: 0,
+    };
+    inFlightByDedupeKey.set(dedupeKey, shared);
+    return join(shared, options?.signal, false);
+  }
+
+  /**
+   * Stop new calls from joining a shared execution
+   */
+  function unshare(shared: SharedExecution<TResponse>): void {
+    if (inFlightByDedupeKey.get(shared.dedupeKey) === shared) {
+      inFlightByDedupeKey.delete(shared.dedupeKey);
+    }
+  }
+
+  /**
+   * Wait for a shared execution, or until the caller's own signal aborts
+   * The execution is aborted, and no longer joined, once its last caller aborts.
+   * Joiners get a clone of a fetch Response, whose body can only be read once
+   */
+  function join(
+    shared: SharedExecution<TResponse>,
+    signal: AbortSignal | undefined,
+    joiner: boolean
+  ): Promise<TResponse> {
+    shared.callers++;
+    const promise = joiner ? shared.promise.then(cloneResponse) : shared.promise;
+    if (!signal) {
+      return promise;
+    }
+
+    return new Promise<TResponse>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new RequestAbortedError(signal.reason));
+        if (--shared.callers === 0) {
+          unshare(shared);
+          shared.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      promise.then(
+        response => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        (error: unknown) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
   // Initialize health monitor
   const healthMonitor = new HealthMonitor({
+    rateLimiter,
+    groups,
     quotaTracker,
     circuitBreaker,
     selector,
@@ -179,13 +413,68 @@ export function createKeyPool<TResponse = Response>(
   // Return the pool interface
   return {
     async execute(
-      fn: (keyValue: string) => Promise<TResponse>,
+      fn: (keyValue: string, context: ExecutionContext) => Promise<TResponse>,
       options?: ExecuteOptions
     ): Promise<TResponse> {
-      // Ensure state is loaded before accepting requests
-      // This awaits on first call; subsequent calls return immediately (promise already resolved)
+      const cacheKey = options?.stream ? undefined : options?.cacheKey;
+      if (!cache || cacheKey === undefined) {
+        return run(fn, options);
+      }
+
+      // A hit skips the pool entirely: no rate limit token, no quota
+      const cached = await cache.get(cacheKey);
+      if (cached !== null) {
+        return cached;
+      }
+
+      const response = await run(fn, options);
+      await cache.set(cacheKey, response, options?.cacheTtlMs);
+      return response;
+    },
+
+    async executeWithMeta(
+      fn: (keyValue: string, context: ExecutionContext) => Promise<TResponse>,
+      options?: Omit<ExecuteOptions, 'dedupeKey' | 'cacheKey' | 'cacheTtlMs'>
+    ): Promise<ExecutionResult<TResponse>> {
+      const startedAt = Date.now();
+      const trace: RequestTrace = { startedAt: null, attempts: [] };
+
       await initPromise;
-      return queue.enqueue(fn, options?.maxWaitMs);
+      const response = await queue.enqueue(fn, options, trace);
+      const finishedAt = Date.now();
+
+      // A request resolves on its only successful attempt
+      const served = trace.attempts.find(attempt => attempt.outcome === 'success');
+
+      return {
+        response,
+        keyId: served!.keyId,
+        attempts: trace.attempts,
+        queuedMs: (trace.startedAt?.getTime() ?? finishedAt) - startedAt,
+        totalMs: finishedAt - startedAt,
+      };
+    },
+
+    async executeBatch<TItem>(
+      items: TItem[],
+      fn: (item: TItem, keyValue: string, context: ExecutionContext) => Promise<TResponse>,
+      options: BatchOptions = {}
+    ): Promise<BatchResult<TResponse>> {
+      const { concurrency, stopOnError, ...executeOptions } = options;
+      const keyUsage: Record<string, number> = {};
+
+      const result = await runBatch({
+        items,
+        concurrency: concurrency ?? config.maxConcurrency ?? DEFAULTS.maxConcurrency,
+        stopOnError: stopOnError ?? false,
+        signal: executeOptions.signal,
+        execute: item => run((keyValue, context) => {
+          keyUsage[context.keyId] = (keyUsage[context.keyId] ?? 0) + 1;
+          return fn(item, keyValue, context);
+        }, executeOptions),
+      });
+
+      return { ...result, keyUsage };
     },
 
     getHealth(): HealthStatus {
@@ -197,21 +486,26 @@ export function createKeyPool<TResponse = Response>(
       if (!state) {
         return null;
       }
-      return buildKeyStats(state, rateLimiter, quotaTracker, circuitBreaker);
+      return selector.getKeyStats(state);
     },
 
     getAllKeyStats(): KeyStats[] {
-      return states.map(state =>
-        buildKeyStats(state, rateLimiter, quotaTracker, circuitBreaker)
-      );
+      return states.map(state => selector.getKeyStats(state));
+    },
+
+    getCacheStats(): CacheStats | null {
+      return cache?.getStats() ?? null;
     },
 
-    getQueueSize(): number {
+    getQueueSize(priority?: RequestPriority): number {
+      if (priority) {
+        return queue.getSizeByPriority()[priority];
+      }
       return queue.size;
     },
 
     addKey(key: KeyConfig): void {
-      validateKeyConfig(key);
+      validateKeyConfig(key, config.groups);
       
       // Check for duplicate ID
       if (states.some(s => s.config.id === key.id)) {
@@ -224,6 +518,10 @@ export function createKeyPool<TResponse = Response>(
 
       // Load persisted state
       void quotaTracker.loadState(state);
+      void rateLimiter.loadState(state);
+
+      // Wake requests waiting for a key
+      queue.triggerProcess();
     },
 
     removeKey(keyId: string): boolean {
@@ -244,6 +542,7 @@ export function createKeyPool<TResponse = Response>(
       }
 
       circuitBreaker.forceClose(state);
+      queue.triggerProcess();
       return true;
     },
 
@@ -264,6 +563,7 @@ export function createKeyPool<TResponse = Response>(
       }
 
       quotaTracker.reset(state);
+      queue.triggerProcess();
       return true;
     },
 
@@ -273,10 +573,18 @@ export function createKeyPool<TResponse = Response>(
   };
 }
 
+/**
+ * Copy a response for another caller
+ * Fetch Response bodies are one-shot, so they are cloned; other values are shared
+ */
+function cloneResponse<TResponse>(response: TResponse): TResponse {
+  return response instanceof Response ? response.clone() as TResponse : response;
+}
+
 /**
  * Validate a key configuration
  */
-function validateKeyConfig(key: KeyConfig): void {
+function validateKeyConfig(key: KeyConfig, groups: Record<string, GroupConfig> | undefined): void {
   if (!key.id || typeof key.id !== 'string') {
     throw new InvalidKeyConfigError(key.id ?? 'unknown', 'Key ID is required');
   }
@@ -293,9 +601,127 @@ function validateKeyConfig(key: KeyConfig): void {
     throw new InvalidKeyConfigError(key.id, 'RPS must be a positive number');
   }
 
+  if (key.burst !== undefined) {
+    if (typeof key.burst !== 'number' || key.burst <= 0) {
+      throw new InvalidKeyConfigError(key.id, 'Burst must be a positive number');
+    }
+    if (!key.rps) {
+      throw new InvalidKeyConfigError(key.id, 'Burst requires rps');
+    }
+  }
+
+  if (key.algorithm !== undefined) {
+    if (key.algorithm !== 'token-bucket' && key.algorithm !== 'sliding-window') {
+      throw new InvalidKeyConfigError(key.id, `Invalid rate limit algorithm: ${String(key.algorithm)}`);
+    }
+    if (!key.rps) {
+      throw new InvalidKeyConfigError(key.id, 'Rate limit algorithm requires rps');
+    }
+    if (key.algorithm === 'sliding-window' && key.burst !== undefined) {
+      throw new InvalidKeyConfigError(key.id, 'Burst only applies to the token bucket algorithm');
+    }
+  }
+
   if (key.weight !== undefined && (typeof key.weight !== 'number' || key.weight <= 0)) {
     throw new InvalidKeyConfigError(key.id, 'Weight must be a positive number');
   }
+
+  if (
+    key.maxConcurrent !== undefined &&
+    (!Number.isInteger(key.maxConcurrent) || key.maxConcurrent <= 0)
+  ) {
+    throw new InvalidKeyConfigError(key.id, 'Max concurrent must be a positive integer');
+  }
+
+  const limitsError = getLimitsError(key.limits ?? []);
+  if (limitsError) {
+    throw new InvalidKeyConfigError(key.id, limitsError);
+  }
+
+  if (key.adaptive) {
+    validateAdaptiveConfig(key);
+  }
+
+  if (key.group !== undefined && !groups?.[key.group]) {
+    throw new InvalidKeyConfigError(key.id, `Group "${key.group}" is not configured`);
+  }
+}
+
+/**
+ * Validate a key group configuration
+ */
+function validateGroupConfig(id: string, group: GroupConfig): void {
+  if (group.rps !== undefined && (typeof group.rps !== 'number' || group.rps <= 0)) {
+    throw new InvalidPoolConfigError(`Group "${id}": RPS must be a positive number`);
+  }
+
+  const limitsError = getLimitsError(group.limits ?? []);
+  if (limitsError) {
+    throw new InvalidPoolConfigError(`Group "${id}": ${limitsError}`);
+  }
+
+  const quota = group.quota;
+  if (quota !== undefined) {
+    if (!['monthly', 'yearly', 'total', 'unlimited'].includes(quota.type)) {
+      throw new InvalidPoolConfigError(`Group "${id}": Invalid quota type: ${String(quota.type)}`);
+    }
+
+    if (quota.type !== 'unlimited' && (typeof quota.limit !== 'number' || quota.limit <= 0)) {
+      throw new InvalidPoolConfigError(`Group "${id}": Quota limit must be a positive number`);
+    }
+  }
+}
+
+/**
+ * Get the reason a list of rate limits is invalid, or null if it is valid
+ */
+function getLimitsError(limits: RateLimitConfig[]): string | null {
+  for (const limit of limits) {
+    if (typeof limit.max !== 'number' || limit.max <= 0) {
+      return 'Limit max must be a positive number';
+    }
+
+    if (!['second', 'minute', 'hour', 'day'].includes(limit.per)) {
+      return `Invalid limit window: ${String(limit.per)}`;
+    }
+
+    if (limit.unit !== undefined && limit.unit !== 'requests' && limit.unit !== 'tokens') {
+      return `Invalid limit unit: ${String(limit.unit)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a key's adaptive rate limiting settings
+ */
+function validateAdaptiveConfig(key: KeyConfig): void {
+  if (!key.rps) {
+    throw new InvalidKeyConfigError(key.id, 'Adaptive rate limiting requires an initial rps');
+  }
+
+  const adaptive: AdaptiveRateConfig = typeof key.adaptive === 'object' ? key.adaptive : {};
+  for (const name of ['minRps', 'maxRps', 'increase'] as const) {
+    const value = adaptive[name];
+    if (value !== undefined && (typeof value !== 'number' || value <= 0)) {
+      throw new InvalidKeyConfigError(key.id, `Adaptive ${name} must be a positive number`);
+    }
+  }
+
+  if (
+    adaptive.decrease !== undefined &&
+    (typeof adaptive.decrease !== 'number' || adaptive.decrease <= 0 || adaptive.decrease >= 1)
+  ) {
+    throw new InvalidKeyConfigError(key.id, 'Adaptive decrease must be between 0 and 1');
+  }
+
+  if (
+    adaptive.minRps !== undefined &&
+    adaptive.maxRps !== undefined &&
+    adaptive.minRps > adaptive.maxRps
+  ) {
+    throw new InvalidKeyConfigError(key.id, 'Adaptive minRps must not exceed maxRps');
+  }
 }
 
 /**
@@ -312,31 +738,40 @@ function createKeyState(key: KeyConfig): KeyState {
     circuitOpenUntil: null,
     consecutiveFailures: 0,
     lastUsed: null,
-    tokens: key.rps ?? 0,
+    lastSelected: 0,
+    tokens: key.burst ?? key.rps ?? 0,
     lastTokenRefill: now,
+    learnedRps: key.adaptive ? key.rps ?? null : null,
+    providerWindow: null,
+    inFlight: 0,
+    requestLog: [],
+    limitBuckets: (key.limits ?? []).map(limit => ({
+      tokens: limit.max,
+      lastRefill: now,
+    })),
   };
 }
 
 /**
- * Build key stats from state
+ * Create initial state for a key group
+ * The group's rps is enforced as a per-second limit
  */
-function buildKeyStats(
-  state: KeyState,
-  rateLimiter: RateLimiter,
-  quotaTracker: QuotaTracker,
-  circuitBreaker: CircuitBreaker
-): KeyStats {
+function createGroupState(id: string, group: GroupConfig): GroupState {
+  const now = new Date();
+  const limits = [
+    ...(group.rps ? [{ per: 'second' as const, max: group.rps }] : []),
+    ...(group.limits ?? []),
+  ];
+
   return {
-    id: state.config.id,
-    quotaUsed: state.quotaUsed,
-    quotaRemaining: quotaTracker.getRemaining(state),
-    isRateLimited:
-      !rateLimiter.hasCapacity(state) ||
-      (state.rateLimitedUntil !== null && state.rateLimitedUntil.getTime() > Date.now()),
-    isCircuitOpen: circuitBreaker.getState(state) === 'open',
-    isExhausted: !quotaTracker.hasQuota(state),
-    currentRps: rateLimiter.getCurrentRps(state),
-    rpsLimit: state.config.rps ?? null,
-    consecutiveFailures: state.consecutiveFailures,
+    id,
+    config: group,
+    quotaUsed: 0,
+    periodStart: now,
+    limits,
+    limitBuckets: limits.map(limit => ({
+      tokens: limit.max,
+      lastRefill: now,
+    })),
   };
 }
@@ -1,26 +1,64 @@
-import type { QueuedRequest } from './types.js';
-import { QueueTimeoutError, QueueFullError } from './errors.js';
+import type {
+  ExecuteOptions,
+  ExecutionContext,
+  QueuedRequest,
+  RequestPriority,
+  RequestTrace,
+} from './types.js';
+import {
+  KeyrotError,
+  QueueTimeoutError,
+  QueueFullError,
+  RequestAbortedError,
+  DeadlineExceededError,
+  InvalidExecuteOptionsError,
+} from './errors.js';
+
+/**
+ * Numeric level for each priority lane (lower runs first)
+ */
+const PRIORITY_LEVELS: Record<RequestPriority, number> = {
+  critical: 0,
+  normal: 1,
+  background: 2,
+};
 
 /**
  * Request queue with timeout support
  * 
- * Manages pending requests in FIFO order with configurable timeouts.
+ * Manages pending requests in priority lanes with configurable timeouts.
+ * Higher-priority requests are dispatched first and requests within the same
+ * lane are admitted in FIFO order. Waiting requests are promoted one level
+ * every `priorityAgingMs` so background work is never starved.
+ * Up to `maxConcurrency` requests are dispatched in parallel; only their
+ * completion may interleave.
+ * Requests can be parked until a key is expected to become available; parked
+ * requests keep their place and are woken by triggerProcess().
  * When the queue is full or timeout is exceeded, appropriate errors are thrown.
  */
 export class RequestQueue<TResponse> {
   private queue: QueuedRequest<TResponse>[] = [];
+  private inFlight: Set<QueuedRequest<TResponse>> = new Set();
+  private activeCount: number = 0;
   private maxSize: number;
   private defaultMaxWaitMs: number;
-  private processing: boolean = false;
+  private maxConcurrency: number;
+  private priorityAgingMs: number;
   private processCallback: ((request: QueuedRequest<TResponse>) => Promise<void>) | null = null;
   private timeoutCheckerInterval: ReturnType<typeof setInterval> | null = null;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextWakeAt: number = 0;
 
   constructor(options: {
     maxSize: number;
     defaultMaxWaitMs: number;
+    maxConcurrency?: number;
+    priorityAgingMs?: number;
   }) {
     this.maxSize = options.maxSize;
     this.defaultMaxWaitMs = options.defaultMaxWaitMs;
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 1);
+    this.priorityAgingMs = options.priorityAgingMs ?? 10000;
   }
 
   /**
@@ -34,31 +72,65 @@ export class RequestQueue<TResponse> {
    * Add a request to the queue
    */
   async enqueue(
-    execute: (keyValue: string) => Promise<TResponse>,
-    maxWaitMs?: number
+    execute: (keyValue: string, context: ExecutionContext) => Promise<TResponse>,
+    options: ExecuteOptions = {},
+    trace: RequestTrace = { startedAt: null, attempts: [] }
   ): Promise<TResponse> {
+    const { signal } = options;
+
+    validateExecuteOptions(options);
+
+    // Check if already cancelled
+    if (signal?.aborted) {
+      throw new RequestAbortedError(signal.reason);
+    }
+
     // Check if queue is full
-    if (this.queue.length >= this.maxSize) {
+    if (this.size >= this.maxSize) {
       throw new QueueFullError({
-        queueSize: this.queue.length,
+        queueSize: this.size,
         maxQueueSize: this.maxSize,
         retryAfterMs: this.estimateRetryAfter(),
       });
     }
 
-    const effectiveMaxWait = maxWaitMs ?? this.defaultMaxWaitMs;
+    const effectiveMaxWait = options.maxWaitMs ?? this.defaultMaxWaitMs;
 
     return new Promise<TResponse>((resolve, reject) => {
+      const onAbort = () => this.abort(request);
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
       const request: QueuedRequest<TResponse> = {
         id: this.generateId(),
         execute,
-        resolve,
-        reject,
+        resolve: (value) => {
+          request.settled = true;
+          cleanup();
+          resolve(value);
+        },
+        reject: (error) => {
+          request.settled = true;
+          cleanup();
+          reject(error);
+        },
+        settled: false,
         queuedAt: new Date(),
         maxWaitMs: effectiveMaxWait,
+        priority: options.priority ?? 'normal',
+        cost: options.cost ?? 1,
+        estimatedTokens: options.estimatedTokens ?? 0,
+        signal,
+        attemptTimeoutMs: options.attemptTimeoutMs,
+        deadlineMs: options.deadlineMs,
+        hedge: options.hedge,
+        stream: options.stream ?? false,
+        parkedUntil: null,
         retryCount: 0,
+        attempts: 0,
+        trace,
       };
 
+      signal?.addEventListener('abort', onAbort, { once: true });
       this.queue.push(request);
       this.startTimeoutChecker();
       this.processNext();
@@ -66,64 +138,235 @@ export class RequestQueue<TResponse> {
   }
 
   /**
-   * Get current queue size
+   * Get current queue size (pending and in-flight requests)
    */
   get size(): number {
-    return this.queue.length;
+    return this.queue.length + this.inFlight.size;
+  }
+
+  /**
+   * Get queue size broken down by priority lane
+   */
+  getSizeByPriority(): Record<RequestPriority, number> {
+    const sizes: Record<RequestPriority, number> = {
+      critical: 0,
+      normal: 0,
+      background: 0,
+    };
+
+    for (const request of this.queue) {
+      sizes[request.priority]++;
+    }
+    for (const request of this.inFlight) {
+      sizes[request.priority]++;
+    }
+
+    return sizes;
   }
 
   /**
    * Check if queue is empty
    */
   get isEmpty(): boolean {
-    return this.queue.length === 0;
+    return this.size === 0;
   }
 
   /**
-   * Start processing the queue
+   * Get the number of requests currently being processed
    */
-  private async processNext(): Promise<void> {
-    if (this.processing || this.queue.length === 0 || !this.processCallback) {
+  get activeRequests(): number {
+    return this.activeCount;
+  }
+
+  /**
+   * Dispatch pending requests while concurrency slots are free
+   */
+  private processNext(): void {
+    if (!this.processCallback) {
       return;
     }
 
-    this.processing = true;
+    while (this.activeCount < this.maxConcurrency && this.queue.length > 0) {
+      const index = this.selectNextIndex();
+      if (index === -1) {
+        // Everything left is parked
+        break;
+      }
+
+      const [request] = this.queue.splice(index, 1);
 
-    try {
-      while (this.queue.length > 0) {
-        const request = this.queue[0];
-        
-        // Check if request has timed out
-        if (this.isTimedOut(request)) {
-          this.queue.shift();
-          request.reject(new QueueTimeoutError({
-            waitedMs: Date.now() - request.queuedAt.getTime(),
-            retryAfterMs: this.estimateRetryAfter(),
-            queueSize: this.queue.length,
-          }));
-          continue;
-        }
-
-        try {
-          await this.processCallback(request);
-          this.queue.shift();
-        } catch (_error) {
-          // Request failed, it's been handled by the callback
-          this.queue.shift();
-        }
+      // Check if request has timed out
+      const timeoutError = this.getTimeoutError(request, Date.now());
+      if (timeoutError) {
+        request.reject(timeoutError);
+        continue;
       }
+
+      void this.dispatch(request, this.processCallback);
+    }
+
+    if (this.size === 0) {
+      this.stopTimeoutChecker();
+    }
+  }
+
+  /**
+   * Find the index of the next request to dispatch
+   * Picks the lowest effective priority level; ties go to the oldest request.
+   * Returns -1 if every pending request is parked
+   */
+  private selectNextIndex(): number {
+    const now = Date.now();
+    let bestIndex = -1;
+    let bestLevel = Infinity;
+
+    for (let i = 0; i < this.queue.length; i++) {
+      const parkedUntil = this.queue[i].parkedUntil;
+      if (parkedUntil && parkedUntil.getTime() > now) {
+        continue;
+      }
+
+      const level = this.getEffectiveLevel(this.queue[i], now);
+      // Strict comparison keeps FIFO order within a level
+      if (level < bestLevel) {
+        bestLevel = level;
+        bestIndex = i;
+      }
+    }
+
+    return bestIndex;
+  }
+
+  /**
+   * Get the priority level of a request after aging
+   */
+  private getEffectiveLevel(request: QueuedRequest<TResponse>, now: number): number {
+    const level = PRIORITY_LEVELS[request.priority];
+    if (this.priorityAgingMs <= 0) {
+      return level;
+    }
+
+    const waited = now - request.queuedAt.getTime();
+    const promotions = Math.floor(waited / this.priorityAgingMs);
+    return Math.max(0, level - promotions);
+  }
+
+  /**
+   * Run a single request, releasing its concurrency slot when done
+   */
+  private async dispatch(
+    request: QueuedRequest<TResponse>,
+    callback: (request: QueuedRequest<TResponse>) => Promise<void>
+  ): Promise<void> {
+    this.activeCount++;
+    this.inFlight.add(request);
+
+    try {
+      await callback(request);
+    } catch (_error) {
+      // Request failed, it's been handled by the callback
     } finally {
-      this.processing = false;
+      this.activeCount--;
+      this.inFlight.delete(request);
+      this.processNext();
+    }
+  }
+
+  /**
+   * Park an in-flight request until a key is expected to be available
+   * The request goes back to its place in the queue and keeps its original
+   * queue time, so its wait time and deadline still apply
+   */
+  park(request: QueuedRequest<TResponse>, delayMs: number): void {
+    // Ignore requests that were already settled (timed out, aborted, cleared)
+    if (!this.inFlight.delete(request)) {
+      return;
+    }
+
+    request.parkedUntil = new Date(Date.now() + delayMs);
+
+    // Insert by queue time so parked requests keep their FIFO position
+    const index = this.queue.findIndex(
+      queued => queued.queuedAt.getTime() > request.queuedAt.getTime()
+    );
+    if (index === -1) {
+      this.queue.push(request);
+    } else {
+      this.queue.splice(index, 0, request);
+    }
+
+    this.scheduleWake(delayMs);
+  }
+
+  /**
+   * Schedule a wake-up for parked requests, keeping the earliest one
+   */
+  private scheduleWake(delayMs: number): void {
+    const wakeAt = Date.now() + delayMs;
+    if (this.wakeTimer && this.nextWakeAt <= wakeAt) {
+      return;
+    }
+
+    this.clearWakeTimer();
+    this.nextWakeAt = wakeAt;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.triggerProcess();
+    }, delayMs);
+  }
+
+  /**
+   * Clear any scheduled wake-up
+   */
+  private clearWakeTimer(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+  }
+
+  /**
+   * Cancel a request whose signal was aborted
+   * Pending requests are removed from the queue; in-flight requests are
+   * rejected but keep their concurrency slot until the callback settles
+   */
+  private abort(request: QueuedRequest<TResponse>): void {
+    const index = this.queue.indexOf(request);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+    this.inFlight.delete(request);
+
+    request.reject(new RequestAbortedError(request.signal?.reason));
+
+    if (this.size === 0) {
       this.stopTimeoutChecker();
     }
   }
 
   /**
-   * Check if a request has timed out
+   * Get the error for a pending request that has outlived its wait time or
+   * deadline, or null if it may still be dispatched
    */
-  private isTimedOut(request: QueuedRequest<TResponse>): boolean {
-    const elapsed = Date.now() - request.queuedAt.getTime();
-    return elapsed >= request.maxWaitMs;
+  private getTimeoutError(request: QueuedRequest<TResponse>, now: number): KeyrotError | null {
+    const elapsed = now - request.queuedAt.getTime();
+
+    if (request.deadlineMs !== undefined && elapsed >= request.deadlineMs) {
+      return new DeadlineExceededError({
+        deadlineMs: request.deadlineMs,
+        elapsedMs: elapsed,
+      });
+    }
+
+    if (elapsed >= request.maxWaitMs) {
+      return new QueueTimeoutError({
+        waitedMs: elapsed,
+        retryAfterMs: this.estimateRetryAfter(),
+        queueSize: this.size,
+      });
+    }
+
+    return null;
   }
 
   /**
@@ -159,21 +402,34 @@ export class RequestQueue<TResponse> {
     // Check requests from the end to avoid index shifting issues
     for (let i = this.queue.length - 1; i >= 0; i--) {
       const request = this.queue[i];
-      const elapsed = now - request.queuedAt.getTime();
+      const timeoutError = this.getTimeoutError(request, now);
       
-      if (elapsed >= request.maxWaitMs) {
+      if (timeoutError) {
         this.queue.splice(i, 1);
+        request.reject(timeoutError);
+      }
+    }
+
+    // In-flight requests are rejected too, but keep their concurrency
+    // slot until the callback settles. Their deadline is enforced by the
+    // executor, which can abort the running attempt
+    for (const request of this.inFlight) {
+      const elapsed = now - request.queuedAt.getTime();
+
+      if (elapsed >= request.maxWaitMs) {
+        this.inFlight.delete(request);
         request.reject(new QueueTimeoutError({
           waitedMs: elapsed,
           retryAfterMs: this.estimateRetryAfter(),
-          queueSize: this.queue.length,
+          queueSize: this.size,
         }));
       }
     }
 
     // Stop checker if queue is empty
-    if (this.queue.length === 0) {
+    if (this.size === 0) {
       this.stopTimeoutChecker();
+      this.clearWakeTimer();
     }
   }
 
@@ -181,8 +437,9 @@ export class RequestQueue<TResponse> {
    * Estimate retry-after time based on queue state
    */
   private estimateRetryAfter(): number {
-    // Base estimate: 1 second per queued request, minimum 1 second
-    return Math.max(1000, this.queue.length * 1000);
+    // Base estimate: 1 second per queued request per concurrency slot,
+    // minimum 1 second
+    return Math.max(1000, Math.ceil(this.queue.length / this.maxConcurrency) * 1000);
   }
 
   /**
@@ -201,15 +458,53 @@ export class RequestQueue<TResponse> {
     for (const request of this.queue) {
       request.reject(err);
     }
+    for (const request of this.inFlight) {
+      request.reject(err);
+    }
     
     this.queue = [];
+    this.inFlight.clear();
     this.stopTimeoutChecker();
+    this.clearWakeTimer();
   }
 
   /**
    * Trigger processing (called when keys become available)
+   * Wakes all parked requests so they can look for a key again
    */
   triggerProcess(): void {
+    for (const request of this.queue) {
+      request.parkedUntil = null;
+    }
+    this.clearWakeTimer();
     this.processNext();
   }
 }
+
+/**
+ * Validate a request's priority and the units it consumes
+ */
+function validateExecuteOptions(options: ExecuteOptions): void {
+  if (options.priority !== undefined && !Object.hasOwn(PRIORITY_LEVELS, options.priority)) {
+    throw new InvalidExecuteOptionsError(
+      `Unknown priority "${String(options.priority)}", expected one of: ` +
+        Object.keys(PRIORITY_LEVELS).join(', ')
+    );
+  }
+
+  if (
+    options.cost !== undefined &&
+    (typeof options.cost !== 'number' || !Number.isFinite(options.cost) || options.cost <= 0)
+  ) {
+    throw new InvalidExecuteOptionsError('Cost must be a positive number');
+  }
+
+  if (
+    options.estimatedTokens !== undefined &&
+    (typeof options.estimatedTokens !== 'number' ||
+      !Number.isFinite(options.estimatedTokens) ||
+      options.estimatedTokens < 0)
+  ) {
+    throw new InvalidExecuteOptionsError('Estimated tokens must be a non-negative number');
+  }
+}
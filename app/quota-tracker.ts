@@ -1,13 +1,21 @@
-import type { KeyState, KeyConfig, StorageAdapter } from './types.js';
+import type {
+  KeyState,
+  KeyConfig,
+  GroupState,
+  QuotaConfig,
+  StorageAdapter,
+} from './types.js';
 
 /**
  * Quota tracker for managing key usage limits
  * 
  * Tracks usage counts and handles period resets (monthly/yearly).
  * Can sync from API response headers for accuracy.
+ * Usage of a key in a group is also charged to the group's shared quota.
  */
 export class QuotaTracker {
   private storage: StorageAdapter;
+  private groups: Map<string, GroupState>;
   private warningThreshold: number;
   private onWarning: ((key: KeyConfig, usagePercent: number) => void) | undefined;
   private onKeyExhausted: ((key: KeyConfig) => void) | undefined;
@@ -18,24 +26,52 @@ export class QuotaTracker {
     warningThreshold: number;
     onWarning?: ((key: KeyConfig, usagePercent: number) => void) | undefined;
     onKeyExhausted?: ((key: KeyConfig) => void) | undefined;
+    groups?: Map<string, GroupState> | undefined;
   }) {
     this.storage = options.storage;
+    this.groups = options.groups ?? new Map();
     this.warningThreshold = options.warningThreshold;
     this.onWarning = options.onWarning;
     this.onKeyExhausted = options.onKeyExhausted;
   }
 
   /**
-   * Check if a key has remaining quota
+   * Check if a key has enough remaining quota for a request of the given cost
    */
-  hasQuota(state: KeyState): boolean {
+  hasQuota(state: KeyState, cost: number = 1): boolean {
     this.checkPeriodReset(state);
 
+    const group = this.getGroup(state);
+    if (group && !this.hasGroupQuota(group, cost)) {
+      return false;
+    }
+
     if (state.config.quota.type === 'unlimited') {
       return true;
     }
 
-    return state.quotaUsed < state.config.quota.limit;
+    return state.quotaUsed + cost <= state.config.quota.limit;
+  }
+
+  /**
+   * Check if a group has enough remaining quota for a request of the given cost
+   */
+  hasGroupQuota(group: GroupState, cost: number = 1): boolean {
+    return this.getGroupRemaining(group) >= cost;
+  }
+
+  /**
+   * Get remaining quota for a group
+   */
+  getGroupRemaining(group: GroupState): number {
+    this.checkGroupPeriodReset(group);
+
+    const quota = group.config.quota;
+    if (!quota || quota.type === 'unlimited') {
+      return Infinity;
+    }
+
+    return Math.max(0, quota.limit - group.quotaUsed);
   }
 
   /**
@@ -69,6 +105,16 @@ export class QuotaTracker {
   increment(state: KeyState, amount: number = 1): void {
     this.checkPeriodReset(state);
 
+    // Charge the key's group as well
+    const group = this.getGroup(state);
+    if (group) {
+      this.checkGroupPeriodReset(group);
+      if (group.config.quota && group.config.quota.type !== 'unlimited') {
+        group.quotaUsed += amount;
+        void this.persistGroupState(group);
+      }
+    }
+
     if (state.config.quota.type === 'unlimited') {
       return;
     }
@@ -114,12 +160,31 @@ export class QuotaTracker {
    * Check if period needs to be reset (monthly/yearly)
    */
   private checkPeriodReset(state: KeyState): void {
+    if (this.isPeriodOver(state.config.quota, state.periodStart)) {
+      this.reset(state);
+    }
+  }
+
+  /**
+   * Check if a group's period needs to be reset (monthly/yearly)
+   */
+  private checkGroupPeriodReset(group: GroupState): void {
+    if (group.config.quota && this.isPeriodOver(group.config.quota, group.periodStart)) {
+      group.quotaUsed = 0;
+      group.periodStart = new Date();
+      void this.persistGroupState(group);
+    }
+  }
+
+  /**
+   * Check if the quota period that started at periodStart has ended
+   */
+  private isPeriodOver(quota: QuotaConfig, periodStart: Date): boolean {
     const now = new Date();
-    const periodStart = state.periodStart;
 
     let shouldReset = false;
 
-    switch (state.config.quota.type) {
+    switch (quota.type) {
       case 'monthly': {
         // Reset if we're in a new month
         shouldReset =
@@ -141,9 +206,7 @@ export class QuotaTracker {
       }
     }
 
-    if (shouldReset) {
-      this.reset(state);
-    }
+    return shouldReset;
   }
 
   /**
@@ -160,15 +223,32 @@ export class QuotaTracker {
    * Persist quota state to storage
    */
   private async persistState(state: KeyState): Promise<void> {
-    const key = `quota:${state.config.id}`;
+    await this.persist(`quota:${state.config.id}`, state.config.quota, state);
+  }
+
+  /**
+   * Persist a group's quota state to storage
+   */
+  private async persistGroupState(group: GroupState): Promise<void> {
+    await this.persist(`quota:group:${group.id}`, group.config.quota, group);
+  }
+
+  /**
+   * Write quota usage under a storage key
+   */
+  private async persist(
+    key: string,
+    quota: QuotaConfig | undefined,
+    usage: { quotaUsed: number; periodStart: Date }
+  ): Promise<void> {
     const data = JSON.stringify({
-      quotaUsed: state.quotaUsed,
-      periodStart: state.periodStart.toISOString(),
+      quotaUsed: usage.quotaUsed,
+      periodStart: usage.periodStart.toISOString(),
     });
 
     // Calculate TTL based on quota type
     let ttl: number | undefined;
-    switch (state.config.quota.type) {
+    switch (quota?.type) {
       case 'monthly':
         ttl = 35 * 24 * 60 * 60; // 35 days
         break;
@@ -207,6 +287,36 @@ export class QuotaTracker {
     this.checkPeriodReset(state);
   }
 
+  /**
+   * Load a group's quota state from storage
+   */
+  async loadGroupState(group: GroupState): Promise<void> {
+    const data = await this.storage.get(`quota:group:${group.id}`);
+
+    if (data) {
+      try {
+        const parsed = JSON.parse(data) as {
+          quotaUsed: number;
+          periodStart: string;
+        };
+        group.quotaUsed = parsed.quotaUsed;
+        group.periodStart = new Date(parsed.periodStart);
+      } catch {
+        // Invalid data, keep the defaults
+      }
+    }
+
+    // Check for period reset after loading
+    this.checkGroupPeriodReset(group);
+  }
+
+  /**
+   * Get the group a key belongs to
+   */
+  private getGroup(state: KeyState): GroupState | undefined {
+    return state.config.group ? this.groups.get(state.config.group) : undefined;
+  }
+
   /**
    * Get the total quota limit for a key
    */
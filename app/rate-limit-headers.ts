@@ -0,0 +1,115 @@
+import type { RateLimitState } from './types.js';
+
+/**
+ * Reset values above this are Unix timestamps rather than delays (in seconds)
+ */
+const EPOCH_THRESHOLD = 1_000_000_000;
+
+/**
+ * Read the provider's rate limit window from response headers
+ *
+ * Recognizes, in order:
+ * - `x-ratelimit-remaining-requests` / `x-ratelimit-reset-requests`
+ *   (e.g. OpenAI, with resets like `6m0s` or `20ms`)
+ * - IETF `RateLimit` (`remaining=50, reset=30` or `"default";r=50;t=30`),
+ *   falling back to the `RateLimit-Policy` window when it has no reset
+ * - `RateLimit-Remaining` / `RateLimit-Reset`
+ * - `x-ratelimit-remaining` / `x-ratelimit-reset` (a delay or a Unix timestamp)
+ *
+ * Returns null if no complete window is reported.
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitState | null {
+  return (
+    parsePair(headers, 'x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests') ??
+    parseStructured(headers) ??
+    parsePair(headers, 'ratelimit-remaining', 'ratelimit-reset') ??
+    parsePair(headers, 'x-ratelimit-remaining', 'x-ratelimit-reset')
+  );
+}
+
+/**
+ * Parse a window from a pair of remaining/reset headers
+ */
+function parsePair(
+  headers: Headers,
+  remainingHeader: string,
+  resetHeader: string
+): RateLimitState | null {
+  const remaining = parseNumber(headers.get(remainingHeader));
+  const resetAfter = parseReset(headers.get(resetHeader));
+  if (remaining === null || resetAfter === null) {
+    return null;
+  }
+  return { remaining, resetAfter };
+}
+
+/**
+ * Parse a window from the IETF `RateLimit` and `RateLimit-Policy` headers
+ */
+function parseStructured(headers: Headers): RateLimitState | null {
+  const rateLimit = headers.get('ratelimit');
+  if (!rateLimit) {
+    return null;
+  }
+
+  const params = parseParams(rateLimit);
+  const remaining = parseNumber(params.get('remaining') ?? params.get('r') ?? null);
+  const resetAfter =
+    parseNumber(params.get('reset') ?? params.get('t') ?? null) ??
+    parseNumber(parseParams(headers.get('ratelimit-policy') ?? '').get('w') ?? null);
+  if (remaining === null || resetAfter === null) {
+    return null;
+  }
+  return { remaining, resetAfter };
+}
+
+/**
+ * Collect `name=value` parameters separated by commas or semicolons
+ * When a header lists several policies, the first occurrence of a name wins
+ */
+function parseParams(value: string): Map<string, string> {
+  const params = new Map<string, string>();
+  for (const part of value.split(/[,;]/)) {
+    const [name, param] = part.split('=').map(s => s.trim());
+    if (name && param !== undefined && !params.has(name.toLowerCase())) {
+      params.set(name.toLowerCase(), param.replace(/^"|"$/g, ''));
+    }
+  }
+  return params;
+}
+
+/**
+ * Parse a reset header into seconds from now
+ * Accepts plain seconds, Unix timestamps and durations like `1m30s` or `250ms`
+ */
+function parseReset(value: string | null): number | null {
+  const seconds = parseNumber(value);
+  if (seconds !== null) {
+    return seconds > EPOCH_THRESHOLD ? Math.max(0, seconds - Date.now() / 1000) : seconds;
+  }
+  return parseDuration(value);
+}
+
+/**
+ * Parse a duration like `6m0s`, `1.5s` or `20ms` into seconds
+ */
+function parseDuration(value: string | null): number | null {
+  const match = value?.trim().match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+  if (!match || match.slice(1).every(part => part === undefined)) {
+    return null;
+  }
+
+  const [hours, minutes, seconds, ms] = match.slice(1).map(part => Number(part ?? 0));
+  return hours * 3600 + minutes * 60 + seconds + ms / 1000;
+}
+
+/**
+ * Parse a non-negative number, or null if the value isn't one
+ */
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
@@ -1,59 +1,234 @@
-import type { KeyState } from './types.js';
+import type {
+  AdaptiveRateConfig,
+  GroupState,
+  KeyState,
+  LimitBucket,
+  LimitStats,
+  RateLimitConfig,
+  RateLimitState,
+  StorageAdapter,
+} from './types.js';
+
+/**
+ * Length of each rate limit window in ms
+ */
+const WINDOW_MS: Record<RateLimitConfig['per'], number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Default bounds and steps for adaptive rate limiting
+ */
+const ADAPTIVE_DEFAULTS: Required<AdaptiveRateConfig> = {
+  minRps: 1,
+  maxRps: Infinity,
+  increase: 1,
+  decrease: 0.5,
+};
 
 /**
  * Token bucket rate limiter for RPS control
- * 
+ *
  * Uses the token bucket algorithm:
- * - Each key has a bucket that holds up to `rps` tokens
- * - Tokens are consumed when requests are made
+ * - Each key has a bucket that holds up to `burst` tokens (default: `rps`)
+ * - Tokens are consumed when requests are made, one per unit of cost
  * - Tokens refill at a rate of `rps` per second
+ * - A request costing more than the bucket holds is admitted once the
+ *   bucket is full, leaving it in debt until enough tokens refill
+ *
+ * Keys using the sliding-window algorithm instead log the requests admitted
+ * within the last second and admit a request only while the log holds fewer
+ * than `rps` units, so no second ever sees more than `rps`.
+ *
+ * Each of the key's additional `limits` has its own bucket holding `max`
+ * units that refill over the limit's window. The limits of the key's group
+ * and the pool-wide `globalLimits` work the same way with buckets shared by
+ * several keys. A request is only admitted when every bucket has capacity
+ * for it.
+ *
+ * Adaptive keys learn their rate (AIMD): it grows additively while requests
+ * succeed and is cut multiplicatively on rate-limited responses. The learned
+ * rate replaces `rps` and is persisted so it survives restarts.
+ *
+ * When responses report the provider's own window, a key the provider has
+ * no requests left on is held back until the window resets.
  */
 export class RateLimiter {
+  private globalBuckets: { limit: RateLimitConfig; bucket: LimitBucket }[];
+  private groups: Map<string, GroupState>;
+  private storage: StorageAdapter | undefined;
+
+  constructor(options: {
+    globalLimits?: RateLimitConfig[] | undefined;
+    groups?: Map<string, GroupState> | undefined;
+    storage?: StorageAdapter | undefined;
+  } = {}) {
+    this.globalBuckets = (options.globalLimits ?? []).map(limit => ({
+      limit,
+      bucket: { tokens: limit.max, lastRefill: new Date() },
+    }));
+    this.groups = options.groups ?? new Map();
+    this.storage = options.storage;
+  }
+
   /**
-   * Check if a key has available capacity (without consuming)
+   * Check if a key has capacity for a request of the given cost (without consuming)
    */
-  hasCapacity(state: KeyState): boolean {
-    if (!state.config.rps) {
-      return true; // No RPS limit configured
+  hasCapacity(state: KeyState, cost: number = 1, tokens: number = 0): boolean {
+    const capacity = this.getCapacity(state);
+    if (capacity && this.getAvailableTokens(state) < this.getRequiredTokens(capacity, cost)) {
+      return false;
     }
 
-    const availableTokens = this.getAvailableTokens(state);
-    return availableTokens >= 1;
+    if (this.getProviderRemaining(state) < cost) {
+      return false;
+    }
+
+    return this.getBuckets(state).every(({ limit, bucket }) =>
+      this.getBucketTokens(limit, bucket) >=
+        this.getRequiredTokens(limit.max, this.getDemand(limit, cost, tokens))
+    );
+  }
+
+  /**
+   * Try to consume tokens for a request of the given cost from the buckets
+   * Returns true if successful, false if not enough tokens available
+   */
+  tryConsume(state: KeyState, cost: number = 1, tokens: number = 0): boolean {
+    if (!this.hasCapacity(state, cost, tokens)) {
+      return false;
+    }
+
+    if (this.getRps(state) && this.isSlidingWindow(state)) {
+      this.pruneRequestLog(state);
+      state.requestLog.push({ at: Date.now(), cost });
+    } else if (this.getRps(state)) {
+      this.refillTokens(state);
+      state.tokens -= cost;
+    }
+
+    if (state.providerWindow) {
+      state.providerWindow.remaining -= cost;
+    }
+
+    for (const { limit, bucket } of this.getBuckets(state)) {
+      this.refillBucket(limit, bucket);
+      bucket.tokens -= this.getDemand(limit, cost, tokens);
+    }
+
+    return true;
+  }
+
+  /**
+   * Correct the units consumed from a key's limits (and its group's and the
+   * global limits) of the given unit, e.g. once the actual token usage of a request is
+   * known. A positive delta consumes more, a negative delta gives units back
+   */
+  adjust(state: KeyState, unit: 'requests' | 'tokens', delta: number): void {
+    for (const { limit, bucket } of this.getBuckets(state)) {
+      if ((limit.unit ?? 'requests') !== unit) {
+        continue;
+      }
+      this.refillBucket(limit, bucket);
+      bucket.tokens = Math.min(limit.max, bucket.tokens - delta);
+    }
   }
 
   /**
-   * Try to consume a token from the bucket
-   * Returns true if successful, false if no tokens available
+   * Sync a key with the provider's rate limit window reported by a response
    */
-  tryConsume(state: KeyState): boolean {
-    if (!state.config.rps) {
-      return true; // No RPS limit configured
+  syncFromResponse(state: KeyState, rateLimit: RateLimitState): void {
+    state.providerWindow = {
+      remaining: Math.max(0, rateLimit.remaining),
+      resetAt: new Date(Date.now() + Math.max(0, rateLimit.resetAfter) * 1000),
+    };
+  }
+
+  /**
+   * Grow an adaptive key's rate after a successful request
+   * The rate grows by `increase` for each second's worth of successes
+   */
+  recordSuccess(state: KeyState): void {
+    const adaptive = this.getAdaptiveConfig(state);
+    const rps = this.getRps(state);
+    if (!adaptive || !rps) {
+      return;
     }
 
-    // Refill tokens first
     this.refillTokens(state);
+    state.learnedRps = Math.min(adaptive.maxRps, rps + adaptive.increase / rps);
+    void this.persistState(state);
+  }
 
-    if (state.tokens >= 1) {
-      state.tokens -= 1;
-      return true;
+  /**
+   * Cut an adaptive key's rate after a rate-limited response
+   */
+  recordRateLimited(state: KeyState): void {
+    const adaptive = this.getAdaptiveConfig(state);
+    const rps = this.getRps(state);
+    if (!adaptive || !rps) {
+      return;
     }
 
-    return false;
+    this.refillTokens(state);
+    state.learnedRps = Math.max(adaptive.minRps, rps * adaptive.decrease);
+    state.tokens = Math.min(state.tokens, this.getCapacity(state)!);
+    void this.persistState(state);
+  }
+
+  /**
+   * Get the requests per second a key is limited to: its learned rate when
+   * adaptive, else its configured rps
+   */
+  getRps(state: KeyState): number | undefined {
+    return state.learnedRps ?? state.config.rps;
+  }
+
+  /**
+   * Get the most units of rps a key can admit at once: its burst, else its rate
+   */
+  getCapacity(state: KeyState): number | undefined {
+    const rps = this.getRps(state);
+    return rps && (state.config.burst ?? rps);
+  }
+
+  /**
+   * Get the request rate allowed by the global limits (requests per second)
+   * Returns Infinity if no global requests limit is configured
+   */
+  getGlobalRps(): number {
+    return this.getRequestRate(this.globalBuckets.map(({ limit }) => limit));
+  }
+
+  /**
+   * Get the request rate allowed by a group's limits (requests per second)
+   * Returns Infinity if the group has no requests limit
+   */
+  getGroupRps(group: GroupState): number {
+    return this.getRequestRate(group.limits);
   }
 
   /**
    * Get the number of available tokens (after refill)
    */
   getAvailableTokens(state: KeyState): number {
-    if (!state.config.rps) {
+    const rps = this.getRps(state);
+    if (!rps) {
       return Infinity;
     }
 
+    if (this.isSlidingWindow(state)) {
+      return rps - this.getRequestLogUsage(state);
+    }
+
     // Calculate tokens without mutating state
     const now = Date.now();
     const elapsed = (now - state.lastTokenRefill.getTime()) / 1000;
-    const tokensToAdd = elapsed * state.config.rps;
-    const newTokens = Math.min(state.config.rps, state.tokens + tokensToAdd);
+    const tokensToAdd = elapsed * rps;
+    const newTokens = Math.min(this.getCapacity(state)!, state.tokens + tokensToAdd);
 
     return newTokens;
   }
@@ -62,57 +237,282 @@ export class RateLimiter {
    * Get current RPS usage (tokens consumed in last second)
    */
   getCurrentRps(state: KeyState): number {
-    if (!state.config.rps) {
+    const capacity = this.getCapacity(state);
+    if (!capacity) {
       return 0;
     }
 
     const availableTokens = this.getAvailableTokens(state);
-    const consumed = state.config.rps - availableTokens;
+    const consumed = capacity - availableTokens;
     return Math.max(0, consumed);
   }
 
   /**
-   * Get time until next token is available (in ms)
+   * Get the usage of each of the key's additional limits
    */
-  getTimeUntilAvailable(state: KeyState): number {
-    if (!state.config.rps) {
-      return 0;
+  getLimitStats(state: KeyState): LimitStats[] {
+    return this.getLimits(state).map((limit, index) => {
+      const remaining = Math.max(0, this.getBucketTokens(limit, state.limitBuckets[index]));
+      return {
+        unit: limit.unit ?? 'requests',
+        per: limit.per,
+        max: limit.max,
+        used: limit.max - remaining,
+        remaining,
+      };
+    });
+  }
+
+  /**
+   * Get time until a request of the given cost can be admitted (in ms)
+   * Accounts for whichever bucket is the binding constraint
+   */
+  getTimeUntilAvailable(state: KeyState, cost: number = 1, tokens: number = 0): number {
+    let waitMs = 0;
+
+    const rps = this.getRps(state);
+    if (rps) {
+      const availableTokens = this.getAvailableTokens(state);
+      const requiredTokens = this.getRequiredTokens(this.getCapacity(state)!, cost);
+      if (availableTokens < requiredTokens && this.isSlidingWindow(state)) {
+        waitMs = this.getTimeUntilLogFrees(state, requiredTokens - availableTokens);
+      } else if (availableTokens < requiredTokens) {
+        // Calculate time needed to refill the missing tokens
+        const tokensNeeded = requiredTokens - availableTokens;
+        const secondsNeeded = tokensNeeded / rps;
+        waitMs = Math.ceil(secondsNeeded * 1000);
+      }
     }
 
-    const availableTokens = this.getAvailableTokens(state);
-    if (availableTokens >= 1) {
-      return 0;
+    if (state.providerWindow && this.getProviderRemaining(state) < cost) {
+      waitMs = Math.max(waitMs, state.providerWindow.resetAt.getTime() - Date.now());
+    }
+
+    for (const { limit, bucket } of this.getBuckets(state)) {
+      const available = this.getBucketTokens(limit, bucket);
+      const required = this.getRequiredTokens(limit.max, this.getDemand(limit, cost, tokens));
+      if (available < required) {
+        const msNeeded = (required - available) / limit.max * WINDOW_MS[limit.per];
+        waitMs = Math.max(waitMs, Math.ceil(msNeeded));
+      }
+    }
+
+    return waitMs;
+  }
+
+  /**
+   * Get the tokens that must be in the bucket to admit a request
+   * Capped at the bucket size so expensive requests aren't blocked forever
+   */
+  private getRequiredTokens(capacity: number, cost: number): number {
+    return Math.min(cost, capacity);
+  }
+
+  /**
+   * Get the requests left in the provider's window for a key
+   * Returns Infinity if no window was reported or it has reset
+   */
+  private getProviderRemaining(state: KeyState): number {
+    if (!state.providerWindow || state.providerWindow.resetAt.getTime() <= Date.now()) {
+      return Infinity;
+    }
+    return state.providerWindow.remaining;
+  }
+
+  /**
+   * Check if a key enforces its rps with the sliding-window algorithm
+   */
+  private isSlidingWindow(state: KeyState): boolean {
+    return state.config.algorithm === 'sliding-window';
+  }
+
+  /**
+   * Drop requests that left the sliding window from a key's log
+   */
+  private pruneRequestLog(state: KeyState): void {
+    const windowStart = Date.now() - WINDOW_MS.second;
+    state.requestLog = state.requestLog.filter(entry => entry.at > windowStart);
+  }
+
+  /**
+   * Get the units of rps used by requests within the sliding window
+   */
+  private getRequestLogUsage(state: KeyState): number {
+    const windowStart = Date.now() - WINDOW_MS.second;
+    let usage = 0;
+    for (const entry of state.requestLog) {
+      if (entry.at > windowStart) {
+        usage += entry.cost;
+      }
+    }
+    return usage;
+  }
+
+  /**
+   * Get the time until enough of the oldest logged requests leave the
+   * sliding window to free the given units (in ms)
+   */
+  private getTimeUntilLogFrees(state: KeyState, units: number): number {
+    const now = Date.now();
+    const windowStart = now - WINDOW_MS.second;
+    let freed = 0;
+    for (const entry of state.requestLog) {
+      if (entry.at <= windowStart) {
+        continue;
+      }
+      freed += entry.cost;
+      if (freed >= units) {
+        return entry.at + WINDOW_MS.second - now;
+      }
+    }
+    return WINDOW_MS.second;
+  }
+
+  /**
+   * Get a key's adaptive rate limiting settings, null if it isn't adaptive
+   */
+  private getAdaptiveConfig(state: KeyState): Required<AdaptiveRateConfig> | null {
+    const adaptive = state.config.adaptive;
+    if (!adaptive) {
+      return null;
+    }
+    return { ...ADAPTIVE_DEFAULTS, ...(adaptive === true ? {} : adaptive) };
+  }
+
+  /**
+   * Get the key's additional rate limits
+   */
+  private getLimits(state: KeyState): RateLimitConfig[] {
+    return state.config.limits ?? [];
+  }
+
+  /**
+   * Get the buckets a request on the key must fit in: the key's own limits,
+   * then its group's limits, then the global limits
+   */
+  private getBuckets(state: KeyState): { limit: RateLimitConfig; bucket: LimitBucket }[] {
+    const group = state.config.group ? this.groups.get(state.config.group) : undefined;
+    const groupBuckets = group
+      ? group.limits.map((limit, index) => ({ limit, bucket: group.limitBuckets[index] }))
+      : [];
+
+    return [
+      ...this.getLimits(state).map((limit, index) => ({
+        limit,
+        bucket: state.limitBuckets[index],
+      })),
+      ...groupBuckets,
+      ...this.globalBuckets,
+    ];
+  }
+
+  /**
+   * Get the lowest request rate allowed by a set of limits (requests per second)
+   */
+  private getRequestRate(limits: RateLimitConfig[]): number {
+    let rps = Infinity;
+    for (const limit of limits) {
+      if ((limit.unit ?? 'requests') === 'requests') {
+        rps = Math.min(rps, limit.max / (WINDOW_MS[limit.per] / 1000));
+      }
     }
+    return rps;
+  }
 
-    // Calculate time needed to refill 1 token
-    const tokensNeeded = 1 - availableTokens;
-    const secondsNeeded = tokensNeeded / state.config.rps;
-    return Math.ceil(secondsNeeded * 1000);
+  /**
+   * Get the units a request consumes from a limit
+   */
+  private getDemand(limit: RateLimitConfig, cost: number, tokens: number): number {
+    return (limit.unit ?? 'requests') === 'tokens' ? tokens : cost;
+  }
+
+  /**
+   * Get the units available in a limit's bucket (after refill, without mutating)
+   */
+  private getBucketTokens(limit: RateLimitConfig, bucket: LimitBucket): number {
+    const elapsed = Date.now() - bucket.lastRefill.getTime();
+    return Math.min(limit.max, bucket.tokens + elapsed * limit.max / WINDOW_MS[limit.per]);
+  }
+
+  /**
+   * Refill a limit's bucket based on elapsed time
+   */
+  private refillBucket(limit: RateLimitConfig, bucket: LimitBucket): void {
+    bucket.tokens = this.getBucketTokens(limit, bucket);
+    bucket.lastRefill = new Date();
   }
 
   /**
    * Refill tokens based on elapsed time
    */
   private refillTokens(state: KeyState): void {
-    if (!state.config.rps) {
+    const rps = this.getRps(state);
+    if (!rps) {
       return;
     }
 
     const now = new Date();
     const elapsed = (now.getTime() - state.lastTokenRefill.getTime()) / 1000;
-    const tokensToAdd = elapsed * state.config.rps;
+    const tokensToAdd = elapsed * rps;
 
-    state.tokens = Math.min(state.config.rps, state.tokens + tokensToAdd);
+    state.tokens = Math.min(this.getCapacity(state)!, state.tokens + tokensToAdd);
     state.lastTokenRefill = now;
   }
 
+  /**
+   * Persist a key's learned rate to storage
+   */
+  private async persistState(state: KeyState): Promise<void> {
+    await this.storage?.set(
+      `rate:${state.config.id}`,
+      JSON.stringify({ learnedRps: state.learnedRps })
+    );
+  }
+
+  /**
+   * Load a key's learned rate from storage
+   */
+  async loadState(state: KeyState): Promise<void> {
+    const adaptive = this.getAdaptiveConfig(state);
+    if (!adaptive || !this.storage) {
+      return;
+    }
+
+    const data = await this.storage.get(`rate:${state.config.id}`);
+    if (!data) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(data) as { learnedRps: number | null };
+      if (typeof parsed.learnedRps === 'number') {
+        // Bounds may have changed since the rate was learned
+        state.learnedRps = Math.min(
+          adaptive.maxRps,
+          Math.max(adaptive.minRps, parsed.learnedRps)
+        );
+        state.tokens = Math.min(state.tokens, this.getCapacity(state)!);
+      }
+    } catch {
+      // Invalid data, keep the configured rate
+    }
+  }
+
   /**
    * Reset the rate limiter state for a key
    */
   reset(state: KeyState): void {
-    if (state.config.rps) {
-      state.tokens = state.config.rps;
+    const capacity = this.getCapacity(state);
+    if (capacity) {
+      state.tokens = capacity;
       state.lastTokenRefill = new Date();
     }
+    state.requestLog = [];
+
+    this.getLimits(state).forEach((limit, index) => {
+      state.limitBuckets[index] = { tokens: limit.max, lastRefill: new Date() };
+    });
+
+    state.providerWindow = null;
   }
 }
@@ -1,85 +1,116 @@
-import type { KeyState } from './types.js';
+import type { KeyState, KeyStats, SelectionStrategy } from './types.js';
 import { RateLimiter } from './rate-limiter.js';
 import { QuotaTracker } from './quota-tracker.js';
 import { CircuitBreaker } from './circuit-breaker.js';
+import { RoundRobinStrategy } from './strategies.js';
+
+/**
+ * Suggested wait (ms) for a key at its concurrency limit, whose slot frees up
+ * at an unknown time
+ */
+const CONCURRENCY_RETRY_MS = 100;
 
 /**
  * Key selector for choosing the next available key
  * 
- * Uses weighted round-robin with fallback strategies:
- * 1. Try keys in round-robin order (respecting weights)
- * 2. Skip keys that are rate-limited, exhausted, or circuit-open
+ * 1. Skip keys that are excluded, rate-limited, exhausted, circuit-open, or
+ *    at their concurrency limit
+ * 2. Let the selection strategy pick among the rest (default: weighted
+ *    round-robin)
  * 3. Return null if no keys are available
  */
 export class KeySelector {
   private rateLimiter: RateLimiter;
   private quotaTracker: QuotaTracker;
   private circuitBreaker: CircuitBreaker;
-  private currentIndex: number = 0;
+  private strategy: SelectionStrategy;
+  private selections: number = 0;
 
   constructor(options: {
     rateLimiter: RateLimiter;
     quotaTracker: QuotaTracker;
     circuitBreaker: CircuitBreaker;
+    strategy?: SelectionStrategy | undefined;
   }) {
     this.rateLimiter = options.rateLimiter;
     this.quotaTracker = options.quotaTracker;
     this.circuitBreaker = options.circuitBreaker;
+    this.strategy = options.strategy ?? new RoundRobinStrategy();
   }
 
   /**
-   * Select the next available key
+   * Select the next key with capacity for a request of the given cost and
+   * estimated tokens
    * Returns null if no keys are available
    */
-  selectKey(states: KeyState[], excludeIds?: Set<string>): KeyState | null {
-    if (states.length === 0) {
-      return null;
-    }
-
-    // Build weighted list (each key appears weight times)
-    const weightedStates = this.buildWeightedList(states);
-    if (weightedStates.length === 0) {
+  selectKey(
+    states: KeyState[],
+    excludeIds?: Set<string>,
+    cost: number = 1,
+    tokens: number = 0
+  ): KeyState | null {
+    // Skip excluded keys (already tried in this request) and unavailable keys
+    const candidates = states
+      .map((state, index) => ({ state, index }))
+      .filter(({ state }) => !excludeIds?.has(state.config.id))
+      .filter(({ state }) => this.isKeyAvailable(state, cost, tokens))
+      .map(({ state, index }) => ({ index, state, stats: this.getKeyStats(state) }));
+
+    if (candidates.length === 0) {
       return null;
     }
 
-    // Try each key in round-robin order
-    const startIndex = this.currentIndex % weightedStates.length;
-    
-    for (let i = 0; i < weightedStates.length; i++) {
-      const index = (startIndex + i) % weightedStates.length;
-      const state = weightedStates[index];
-
-      // Skip excluded keys (already tried in this request)
-      if (excludeIds?.has(state.config.id)) {
-        continue;
-      }
+    const selected = this.strategy.select(candidates).state;
+    selected.lastSelected = ++this.selections;
+    return selected;
+  }
 
-      // Check if key is available
-      if (this.isKeyAvailable(state)) {
-        this.currentIndex = index + 1;
-        return state;
-      }
-    }
+  /**
+   * Get the current statistics of a key
+   */
+  getKeyStats(state: KeyState): KeyStats {
+    return {
+      id: state.config.id,
+      quotaUsed: state.quotaUsed,
+      quotaRemaining: this.quotaTracker.getRemaining(state),
+      isRateLimited:
+        !this.rateLimiter.hasCapacity(state) ||
+        (state.rateLimitedUntil !== null && state.rateLimitedUntil.getTime() > Date.now()),
+      isCircuitOpen: this.circuitBreaker.getState(state) === 'open',
+      isExhausted: !this.quotaTracker.hasQuota(state),
+      currentRps: this.rateLimiter.getCurrentRps(state),
+      rpsLimit: state.config.rps ?? null,
+      learnedRps: state.learnedRps,
+      limits: this.rateLimiter.getLimitStats(state),
+      inFlight: state.inFlight,
+      consecutiveFailures: state.consecutiveFailures,
+    };
+  }
 
-    return null;
+  /**
+   * Check if a key is available for a request of the given cost
+   */
+  isKeyAvailable(state: KeyState, cost: number = 1, tokens: number = 0): boolean {
+    return this.isKeyReady(state, cost, tokens) && !this.isConcurrencySaturated(state);
   }
 
   /**
-   * Check if a key is available for use
+   * Check if a key is available for a request of the given cost, apart from
+   * its concurrency limit
    */
-  isKeyAvailable(state: KeyState): boolean {
+  private isKeyReady(state: KeyState, cost: number, tokens: number): boolean {
     // Check circuit breaker
     if (!this.circuitBreaker.isAvailable(state)) {
       return false;
     }
 
     // Check quota
-    if (!this.quotaTracker.hasQuota(state)) {
+    if (!this.quotaTracker.hasQuota(state, cost)) {
       return false;
     }
 
     // Check rate limit
-    if (!this.rateLimiter.hasCapacity(state)) {
+    if (!this.rateLimiter.hasCapacity(state, cost, tokens)) {
       return false;
     }
 
@@ -92,46 +123,59 @@ export class KeySelector {
   }
 
   /**
-   * Get the count of available keys
+   * Check if a key has as many requests in flight as it allows
    */
-  getAvailableCount(states: KeyState[]): number {
-    return states.filter(state => this.isKeyAvailable(state)).length;
+  isConcurrencySaturated(state: KeyState): boolean {
+    return state.config.maxConcurrent !== undefined &&
+      state.inFlight >= state.config.maxConcurrent;
   }
 
   /**
-   * Get key availability breakdown
+   * Get the count of keys available for a request of the given cost
    */
-  getAvailabilityBreakdown(states: KeyState[]): {
+  getAvailableCount(states: KeyState[], cost: number = 1, tokens: number = 0): number {
+    return states.filter(state => this.isKeyAvailable(state, cost, tokens)).length;
+  }
+
+  /**
+   * Get key availability breakdown for a request of the given cost
+   */
+  getAvailabilityBreakdown(states: KeyState[], cost: number = 1, tokens: number = 0): {
     available: number;
     rateLimited: number;
     quotaExhausted: number;
     circuitOpen: number;
+    concurrencySaturated: number;
   } {
     let available = 0;
     let rateLimited = 0;
     let quotaExhausted = 0;
     let circuitOpen = 0;
+    let concurrencySaturated = 0;
 
     for (const state of states) {
       if (!this.circuitBreaker.isAvailable(state)) {
         circuitOpen++;
-      } else if (!this.quotaTracker.hasQuota(state)) {
+      } else if (!this.quotaTracker.hasQuota(state, cost)) {
         quotaExhausted++;
-      } else if (!this.rateLimiter.hasCapacity(state) || 
+      } else if (!this.rateLimiter.hasCapacity(state, cost, tokens) || 
                  (state.rateLimitedUntil && state.rateLimitedUntil.getTime() > Date.now())) {
         rateLimited++;
+      } else if (this.isConcurrencySaturated(state)) {
+        concurrencySaturated++;
       } else {
         available++;
       }
     }
 
-    return { available, rateLimited, quotaExhausted, circuitOpen };
+    return { available, rateLimited, quotaExhausted, circuitOpen, concurrencySaturated };
   }
 
   /**
-   * Get the shortest wait time until any key becomes available
+   * Get the shortest wait time until any key becomes available for a
+   * request of the given cost
    */
-  getNextAvailableTime(states: KeyState[]): number {
+  getNextAvailableTime(states: KeyState[], cost: number = 1, tokens: number = 0): number {
     let minWait = Infinity;
 
     for (const state of states) {
@@ -142,7 +186,7 @@ export class KeySelector {
       }
 
       // Check rate limit reset time
-      const rpsWait = this.rateLimiter.getTimeUntilAvailable(state);
+      const rpsWait = this.rateLimiter.getTimeUntilAvailable(state, cost, tokens);
       if (rpsWait > 0 && rpsWait < minWait) {
         minWait = rpsWait;
       }
@@ -154,32 +198,21 @@ export class KeySelector {
           minWait = tempWait;
         }
       }
-    }
-
-    return minWait === Infinity ? 60000 : minWait; // Default to 60s if no info
-  }
 
-  /**
-   * Build a weighted list of keys
-   * Each key appears (weight) times in the list
-   */
-  private buildWeightedList(states: KeyState[]): KeyState[] {
-    const weighted: KeyState[] = [];
-
-    for (const state of states) {
-      const weight = state.config.weight ?? 1;
-      for (let i = 0; i < weight; i++) {
-        weighted.push(state);
+      // A key only held up by its concurrency limit frees up as soon as one
+      // of its attempts ends
+      if (this.isConcurrencySaturated(state) && this.isKeyReady(state, cost, tokens)) {
+        minWait = Math.min(minWait, CONCURRENCY_RETRY_MS);
       }
     }
 
-    return weighted;
+    return minWait === Infinity ? 60000 : minWait; // Default to 60s if no info
   }
 
   /**
    * Reset the selector state
    */
   reset(): void {
-    this.currentIndex = 0;
+    this.strategy.reset?.();
   }
 }
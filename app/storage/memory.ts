@@ -53,6 +53,26 @@ export class MemoryStorageAdapter implements StorageAdapter {
     this.store.set(fullKey, { value, expiresAt });
   }
 
+  async compareAndSet(
+    key: string,
+    expected: string | null,
+    value: string,
+    ttl?: number
+  ): Promise<boolean> {
+    // Read and write without awaiting in between, so no other call interleaves
+    const fullKey = this.getKey(key);
+    const stored = this.store.get(fullKey);
+    const current = stored && !this.isExpired(stored) ? stored.value : null;
+
+    if (current !== expected) {
+      return false;
+    }
+
+    const expiresAt = ttl ? Date.now() + ttl * 1000 : null;
+    this.store.set(fullKey, { value, expiresAt });
+    return true;
+  }
+
   async delete(key: string): Promise<void> {
     const fullKey = this.getKey(key);
     this.store.delete(fullKey);
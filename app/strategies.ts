@@ -0,0 +1,115 @@
+import type { SelectionCandidate, SelectionStrategy } from './types.js';
+
+/**
+ * Weighted round-robin: cycles through the pool's keys, each taking (weight)
+ * consecutive turns, and passes over keys that aren't candidates
+ */
+export class RoundRobinStrategy implements SelectionStrategy {
+  /** Pool position and turn of the key whose turn is next */
+  private next = { index: 0, turn: 0 };
+
+  select(candidates: SelectionCandidate[]): SelectionCandidate {
+    const { index, turn } = this.next;
+    const current = candidates.find(candidate => candidate.index === index);
+    const selected = current && turn < getTurns(current)
+      ? current
+      : candidates.find(candidate => candidate.index > index) ?? candidates[0];
+
+    const selectedTurn = selected === current ? turn : 0;
+    this.next = selectedTurn + 1 < getTurns(selected)
+      ? { index: selected.index, turn: selectedTurn + 1 }
+      : { index: selected.index + 1, turn: 0 };
+    return selected;
+  }
+
+  reset(): void {
+    this.next = { index: 0, turn: 0 };
+  }
+}
+
+/**
+ * Weighted random: picks a candidate with probability proportional to its weight
+ */
+export class RandomStrategy implements SelectionStrategy {
+  select(candidates: SelectionCandidate[]): SelectionCandidate {
+    const totalWeight = candidates.reduce(
+      (sum, candidate) => sum + (candidate.state.config.weight ?? 1),
+      0
+    );
+
+    let point = Math.random() * totalWeight;
+    for (const candidate of candidates) {
+      point -= candidate.state.config.weight ?? 1;
+      if (point < 0) {
+        return candidate;
+      }
+    }
+    return candidates[candidates.length - 1];
+  }
+}
+
+/**
+ * Least recently used: picks the candidate selected longest ago, keys never
+ * selected first. Selections count as soon as they are made, so requests
+ * dispatched together spread across keys
+ */
+export class LeastRecentlyUsedStrategy implements SelectionStrategy {
+  select(candidates: SelectionCandidate[]): SelectionCandidate {
+    return candidates.reduce((best, candidate) =>
+      candidate.state.lastSelected < best.state.lastSelected ? candidate : best
+    );
+  }
+}
+
+/**
+ * Least in flight: picks the candidate with the fewest requests in flight,
+ * the least recently selected one among ties
+ */
+export class LeastInFlightStrategy implements SelectionStrategy {
+  select(candidates: SelectionCandidate[]): SelectionCandidate {
+    return candidates.reduce((best, candidate) => {
+      const inFlight = candidate.state.inFlight - best.state.inFlight;
+      if (inFlight !== 0) {
+        return inFlight < 0 ? candidate : best;
+      }
+      return candidate.state.lastSelected < best.state.lastSelected ? candidate : best;
+    });
+  }
+}
+
+/**
+ * Get the consecutive turns a candidate takes per round-robin cycle
+ */
+function getTurns(candidate: SelectionCandidate): number {
+  return Math.ceil(candidate.state.config.weight ?? 1);
+}
+
+/**
+ * Strategy factories by name, each pool creates its own instance
+ */
+const strategies = new Map<string, () => SelectionStrategy>([
+  ['round-robin', () => new RoundRobinStrategy()],
+  ['random', () => new RandomStrategy()],
+  ['least-recently-used', () => new LeastRecentlyUsedStrategy()],
+  ['least-in-flight', () => new LeastInFlightStrategy()],
+]);
+
+/**
+ * Register a selection strategy so pools can refer to it by name in
+ * `PoolConfig.strategy`
+ * The factory is called once per pool; registering an existing name replaces it
+ */
+export function registerSelectionStrategy(
+  name: string,
+  factory: () => SelectionStrategy
+): void {
+  strategies.set(name, factory);
+}
+
+/**
+ * Create a new instance of a named strategy
+ * Returns null if no strategy is registered under the name
+ */
+export function createSelectionStrategy(name: string): SelectionStrategy | null {
+  return strategies.get(name)?.() ?? null;
+}
@@ -0,0 +1,128 @@
+import type { StreamTracker } from './types.js';
+
+/**
+ * Wrap a streamed response so the tracker learns how the stream ended
+ *
+ * Supports fetch `Response` bodies, `ReadableStream`s and async iterables.
+ * Async iterables such as SDK stream objects keep their class and members,
+ * only their iteration is tracked. Async iterators (objects with `next`, like
+ * async generators) are replaced by a tracking async generator.
+ * The returned value must be consumed in place of the original. Reaching the
+ * end of the stream, or the consumer cancelling it early, completes the
+ * tracker; an error while reading fails it. Responses that are not streams
+ * complete the tracker immediately and are returned unchanged.
+ */
+export function trackStream<T>(response: T, tracker: StreamTracker): T {
+  if (response instanceof Response) {
+    if (!response.body) {
+      tracker.complete();
+      return response;
+    }
+    return new Response(trackReadableStream(response.body, tracker), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    }) as T;
+  }
+
+  if (response instanceof ReadableStream) {
+    return trackReadableStream(response, tracker) as T;
+  }
+
+  if (isAsyncIterable(response)) {
+    return trackIterableObject(response, tracker);
+  }
+
+  tracker.complete();
+  return response;
+}
+
+/**
+ * Pipe a ReadableStream through the tracker
+ */
+function trackReadableStream<T>(
+  stream: ReadableStream<T>,
+  tracker: StreamTracker
+): ReadableStream<T> {
+  const reader = stream.getReader();
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          tracker.complete();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        tracker.fail(error);
+        controller.error(error);
+      }
+    },
+
+    async cancel(reason) {
+      tracker.complete();
+      await reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Track an async iterable's iteration while keeping the object itself
+ */
+function trackIterableObject<T extends AsyncIterable<unknown>>(
+  iterable: T,
+  tracker: StreamTracker
+): T {
+  if (typeof (iterable as Partial<AsyncIterator<unknown>>).next === 'function') {
+    return trackAsyncIterable(iterable, tracker) as unknown as T;
+  }
+
+  // Methods read through the proxy, so ones that iterate `this` (such as an
+  // SDK's toReadableStream) are tracked too
+  return new Proxy(iterable, {
+    get(target, property, receiver) {
+      if (property === Symbol.asyncIterator) {
+        return () => trackAsyncIterable(target, tracker);
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+/**
+ * Re-yield an async iterable through the tracker
+ */
+async function* trackAsyncIterable<T>(
+  iterable: AsyncIterable<T>,
+  tracker: StreamTracker
+): AsyncGenerator<T> {
+  let settled = false;
+  try {
+    yield* iterable;
+    settled = true;
+    tracker.complete();
+  } catch (error) {
+    settled = true;
+    tracker.fail(error);
+    throw error;
+  } finally {
+    if (!settled) {
+      // The consumer stopped iterating early
+      tracker.complete();
+    }
+  }
+}
+
+/**
+ * Check if a value is an async iterable
+ */
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Symbol.asyncIterator in value
+  );
+}
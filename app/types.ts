@@ -10,8 +10,74 @@ export interface KeyConfig {
   quota: QuotaConfig;
   /** Requests per second limit (optional) */
   rps?: number;
+  /**
+   * Token bucket capacity: requests that can be sent at once after the key
+   * was idle (default: rps). Use 1 for no burst at all
+   */
+  burst?: number;
+  /**
+   * How rps is enforced (default: 'token-bucket'). 'sliding-window' keeps a
+   * log of recent requests and never admits more than rps within any second,
+   * for providers that count strictly per second
+   */
+  algorithm?: 'token-bucket' | 'sliding-window';
+  /** Additional rate limits enforced alongside rps, e.g. requests and tokens per minute */
+  limits?: RateLimitConfig[];
+  /** Maximum requests in flight on this key at once, including open streams */
+  maxConcurrent?: number;
   /** Priority weight for key selection (default: 1) */
   weight?: number;
+  /** Arbitrary metadata, passed to the request function in its context */
+  metadata?: Record<string, unknown>;
+  /** Group whose quota and rate limits this key shares, must be configured in PoolConfig.groups */
+  group?: string;
+  /**
+   * Learn the key's real rate limit, starting from rps: the rate grows slowly
+   * while requests succeed and is cut on rate-limited responses
+   */
+  adaptive?: boolean | AdaptiveRateConfig;
+}
+
+/**
+ * Bounds and steps for adaptive (AIMD) rate limiting
+ */
+export interface AdaptiveRateConfig {
+  /** Lowest rate the key is cut to (default: 1) */
+  minRps?: number;
+  /** Highest rate the key grows to (default: no limit) */
+  maxRps?: number;
+  /** Requests per second added for each second's worth of successful requests (default: 1) */
+  increase?: number;
+  /** Factor the rate is multiplied by on a rate-limited response (default: 0.5) */
+  decrease?: number;
+}
+
+/**
+ * Shared limits for a group of keys, e.g. keys of the same billing account
+ * Usage by any key in the group is charged to the group as well
+ */
+export interface GroupConfig {
+  /** Quota shared by the group's keys (default: unlimited) */
+  quota?: QuotaConfig;
+  /** Requests per second shared by the group's keys */
+  rps?: number;
+  /** Additional rate limits shared by the group's keys */
+  limits?: RateLimitConfig[];
+}
+
+/**
+ * A rate limit on one dimension of a key's usage
+ */
+export interface RateLimitConfig {
+  /**
+   * What the limit counts (default: 'requests'). Requests limits consume the
+   * request's cost, tokens limits consume its estimatedTokens
+   */
+  unit?: 'requests' | 'tokens';
+  /** Window the limit applies to */
+  per: 'second' | 'minute' | 'hour' | 'day';
+  /** Maximum units per window */
+  max: number;
 }
 
 /**
@@ -33,12 +99,228 @@ export interface CircuitBreakerConfig {
   resetTimeoutMs: number;
 }
 
+/**
+ * Retry backoff configuration - delay applied between attempts
+ */
+export interface RetryBackoffConfig {
+  /** Delay before the first retry in ms (default: 100) */
+  baseMs?: number;
+  /** Maximum delay between attempts in ms (default: 10000) */
+  maxMs?: number;
+  /** Growth factor applied for each further retry (default: 2) */
+  multiplier?: number;
+  /** Randomization applied to the delay (default: 'full') */
+  jitter?: 'full' | 'equal' | 'none';
+}
+
+/**
+ * Information about a retry, passed to the onRetry callback
+ */
+export interface RetryInfo {
+  /** Key whose attempt failed */
+  keyId: string;
+  /** Number of the attempt that failed (1-based) */
+  attempt: number;
+  /** Why the attempt failed */
+  reason: 'rate_limited' | 'error' | 'timeout';
+  /** Backoff delay before the next attempt in ms */
+  delayMs: number;
+}
+
+/**
+ * Hedging configuration for latency-sensitive requests
+ */
+export interface HedgeConfig {
+  /** Launch a parallel attempt on another key if no attempt succeeded after this long (ms) */
+  afterMs: number;
+  /** Maximum number of extra parallel attempts (default: 1) */
+  maxHedges?: number;
+}
+
+/**
+ * Priority lane for a request in the queue
+ * - critical: interactive traffic that should run before everything else
+ * - normal: default lane
+ * - background: batch work that yields to the other lanes
+ */
+export type RequestPriority = 'critical' | 'normal' | 'background';
+
 /**
  * Options for a single execute() call
  */
 export interface ExecuteOptions {
   /** Maximum time to wait in queue (ms). Throws QueueTimeoutError if exceeded */
   maxWaitMs?: number;
+  /** Priority lane for this request (default: 'normal') */
+  priority?: RequestPriority;
+  /**
+   * Units this request costs (default: 1). The request consumes this many
+   * rate limit tokens and quota units, and only keys with enough remaining
+   * capacity are selected
+   */
+  cost?: number | undefined;
+  /**
+   * Estimated tokens this request consumes (default: 0), reserved from the
+   * key's tokens limits and corrected once getUsage reports the actual tokens
+   */
+  estimatedTokens?: number | undefined;
+  /** Abort signal to cancel the request. Rejects with RequestAbortedError when aborted */
+  signal?: AbortSignal | undefined;
+  /**
+   * Maximum duration of a single attempt (ms). A slower attempt is abandoned,
+   * counted as a failure for its key and retried on another key
+   */
+  attemptTimeoutMs?: number | undefined;
+  /**
+   * Overall deadline covering queue wait plus all attempts (ms).
+   * Throws DeadlineExceededError if exceeded
+   */
+  deadlineMs?: number | undefined;
+  /**
+   * Hedge slow attempts onto other keys. The first successful attempt wins and
+   * the others are aborted; every attempt consumes a rate limit token and quota
+   */
+  hedge?: HedgeConfig | undefined;
+  /**
+   * Coalesce identical concurrent calls. While a call with the same key is in
+   * flight, later calls share its upstream attempt, quota charge and result
+   * (or error) instead of executing again. The first call's options apply
+   */
+  dedupeKey?: string | undefined;
+  /**
+   * Cache the response under this key. A cache hit resolves without consuming
+   * a rate limit token or quota unit. Requires PoolConfig.cache
+   */
+  cacheKey?: string | undefined;
+  /** Time to live for the cached response (ms, default: cache.defaultTtlMs) */
+  cacheTtlMs?: number | undefined;
+  /**
+   * Treat the response as a stream. The key's success or failure, and its
+   * quota charge, are recorded when the stream ends instead of when the
+   * response arrives. Streamed requests are never cached or coalesced
+   */
+  stream?: boolean | undefined;
+}
+
+/**
+ * Options for an executeBatch() call
+ * Execute options apply to every item in the batch
+ */
+export interface BatchOptions extends Omit<ExecuteOptions, 'dedupeKey' | 'cacheKey' | 'cacheTtlMs'> {
+  /** Maximum number of items submitted at once (default: the pool's maxConcurrency) */
+  concurrency?: number;
+  /** Skip items not yet submitted once an item fails (default: false) */
+  stopOnError?: boolean;
+}
+
+/**
+ * Outcome of a single batch item
+ */
+export type BatchItemResult<TResponse> =
+  | { status: 'fulfilled'; value: TResponse; durationMs: number }
+  | { status: 'rejected'; reason: Error; durationMs: number }
+  | { status: 'skipped' };
+
+/**
+ * Result of an executeBatch() call
+ */
+export interface BatchResult<TResponse> {
+  /** Per-item outcomes, in the same order as the input items */
+  results: BatchItemResult<TResponse>[];
+  /** Number of items that succeeded */
+  succeeded: number;
+  /** Number of items that failed */
+  failed: number;
+  /** Number of items skipped after a failure with stopOnError */
+  skipped: number;
+  /** Wall-clock time for the whole batch (ms) */
+  totalMs: number;
+  /** Attempts made on each key, by key ID */
+  keyUsage: Record<string, number>;
+}
+
+/**
+ * A single attempt made while executing a request
+ */
+export interface AttemptInfo {
+  /** Key used for the attempt */
+  keyId: string;
+  /** How the attempt ended */
+  outcome: 'success' | 'rate_limited' | 'error' | 'timeout' | 'aborted';
+  /** Time from starting the attempt until it ended (ms) */
+  durationMs: number;
+}
+
+/**
+ * Result of an executeWithMeta() call
+ */
+export interface ExecutionResult<TResponse> {
+  /** The successful response */
+  response: TResponse;
+  /** Key that served the response */
+  keyId: string;
+  /** Every attempt made, in the order they ended */
+  attempts: AttemptInfo[];
+  /** Time spent waiting before the first attempt (ms) */
+  queuedMs: number;
+  /** Time from the call until the response (ms) */
+  totalMs: number;
+}
+
+/**
+ * Context passed to the request function alongside the key value
+ */
+export interface ExecutionContext {
+  /** ID of the key used for this attempt */
+  keyId: string;
+  /** Value of the key used for this attempt */
+  keyValue: string;
+  /** Metadata from the key's configuration (empty if none) */
+  metadata: Record<string, unknown>;
+  /** Attempt number for this request, starting at 1 (hedged attempts count too) */
+  attempt: number;
+  /** ID of the request, shared by all of its attempts */
+  requestId: string;
+  /** Time left before the request's deadline (ms), or null if it has none */
+  remainingMs: number | null;
+  /**
+   * Abort signal for this attempt, forward it to fetch() to cancel the upstream call.
+   * Aborted when the caller aborts or the attempt times out
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Actual usage of a call, reported from its response
+ * Each field corrects the key's limits of that unit; quota is charged the
+ * tokens when reported, else the requests
+ */
+export interface UsageReport {
+  /** Requests the call counts as */
+  requests?: number;
+  /** Tokens the call consumed (e.g. prompt plus completion tokens) */
+  tokens?: number;
+}
+
+/**
+ * The provider's live rate limit window for a key, reported from a response
+ */
+export interface RateLimitState {
+  /** Requests the provider still allows in its current window */
+  remaining: number;
+  /** Seconds until the provider's window resets */
+  resetAfter: number;
+}
+
+/**
+ * Receives the outcome of a streamed response
+ * Only the first call counts, later calls are ignored
+ */
+export interface StreamTracker {
+  /** The stream was read to the end or cancelled by the consumer */
+  complete(): void;
+  /** Reading the stream failed part-way */
+  fail(error?: unknown): void;
 }
 
 /**
@@ -47,6 +329,18 @@ export interface ExecuteOptions {
 export interface PoolConfig<TResponse = Response> {
   /** Array of API keys to include in the pool */
   keys: KeyConfig[];
+  /**
+   * Rate limits shared by all keys, enforced on top of each key's own
+   * limits, e.g. an account- or IP-level cap
+   */
+  globalLimits?: RateLimitConfig[];
+  /** Key groups sharing quota and rate limits, by group ID */
+  groups?: Record<string, GroupConfig>;
+  /**
+   * How a key is picked among the available keys: a built-in or registered
+   * strategy name, or a strategy instance (default: 'round-robin')
+   */
+  strategy?: string | SelectionStrategy;
 
   // Response handling callbacks
   /** Detect rate limit responses (e.g., 429 status) */
@@ -57,18 +351,53 @@ export interface PoolConfig<TResponse = Response> {
   getRetryAfter?: (response: TResponse) => number | null;
   /** Extract remaining quota from response headers for sync */
   getQuotaRemaining?: (response: TResponse) => number | null;
+  /**
+   * Extract the provider's rate limit window from response headers, so a key
+   * with no requests left is avoided until the window resets
+   * (e.g. `(res) => parseRateLimitHeaders(res.headers)`)
+   */
+  getRateLimitState?: (response: TResponse) => RateLimitState | null;
+  /**
+   * Extract the actual usage of a successful call, charged to quota instead
+   * of the request's cost. A UsageReport is charged its tokens, or its
+   * requests if it has no tokens. Return null to charge the cost
+   */
+  getUsage?: (response: TResponse) => number | UsageReport | null;
   /** Detect successful responses */
   isSuccess?: (response: TResponse) => boolean;
+  /**
+   * Wrap a streamed response so the tracker learns when the stream ends
+   * (default: trackStream, which handles Response bodies, ReadableStreams
+   * and async iterables)
+   */
+  trackStream?: (response: TResponse, tracker: StreamTracker) => TResponse;
 
   // Queue behavior
   /** Maximum number of pending requests in queue (default: 1000) */
   maxQueueSize?: number;
   /** Default max wait time for requests in queue (default: 30000ms) */
   defaultMaxWaitMs?: number;
+  /** Maximum number of requests executed in parallel across the pool (default: 1) */
+  maxConcurrency?: number;
+  /**
+   * Time a request waits before being promoted one priority level, so
+   * lower-priority requests are not starved (default: 10000ms)
+   */
+  priorityAgingMs?: number;
 
   // Retry behavior
   /** Maximum retry attempts across different keys (default: keys.length) */
   maxRetries?: number;
+  /** Default per-attempt timeout in ms (default: none) */
+  defaultAttemptTimeoutMs?: number;
+  /** Backoff between attempts, capped by the request's remaining wait time (default: none) */
+  retryBackoff?: RetryBackoffConfig;
+  /**
+   * Keep requests queued until a key becomes available instead of failing with
+   * AllKeysExhaustedError, bounded by the request's wait time (default: false).
+   * Requests still fail fast when every key's quota is exhausted
+   */
+  waitForAvailableKey?: boolean;
   /** Quota usage percentage that triggers warning (default: 0.8) */
   warningThreshold?: number;
 
@@ -79,6 +408,15 @@ export interface PoolConfig<TResponse = Response> {
   // Storage
   /** Storage adapter for persisting state (default: in-memory) */
   storage?: StorageAdapter;
+  /**
+   * Share each key's rps bucket between processes through storage, so
+   * replicas together stay within the key's rate (default: disabled)
+   */
+  distributedRateLimit?: DistributedRateLimitConfig;
+
+  // Cache
+  /** Response cache, used by requests that set a cacheKey (default: disabled) */
+  cache?: CacheConfig<TResponse>;
 
   // Callbacks
   /** Called when a key reaches the warning threshold */
@@ -89,6 +427,49 @@ export interface PoolConfig<TResponse = Response> {
   onKeyCircuitOpen?: (key: KeyConfig) => void;
   /** Called when all keys are exhausted */
   onAllKeysExhausted?: () => void;
+  /** Called before retrying a failed attempt on another key */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Distributed rate limiting configuration
+ */
+export interface DistributedRateLimitConfig {
+  /** Storage shared by all processes, must support compareAndSet (default: the pool's storage) */
+  storage?: StorageAdapter;
+  /** Largest clock difference between processes that is tolerated (default: 1000ms) */
+  maxClockSkewMs?: number;
+  /** Tries to update a bucket that other processes keep changing (default: 5) */
+  maxAttempts?: number;
+}
+
+/**
+ * Response cache configuration
+ */
+export interface CacheConfig<TResponse> {
+  /** Storage for cached responses (default: in-memory) */
+  adapter?: StorageAdapter;
+  /**
+   * Convert a response to a string for storage (default: responseSerializer
+   * for fetch Response objects, whose bodies are one-shot, else JSON)
+   */
+  serialize?: (response: TResponse) => string | Promise<string>;
+  /** Restore a response from its stored string (default: the counterpart of serialize) */
+  deserialize?: (data: string) => TResponse;
+  /** Time to live when a request doesn't set cacheTtlMs (default: 60000ms) */
+  defaultTtlMs?: number;
+}
+
+/**
+ * Response cache statistics
+ */
+export interface CacheStats {
+  /** Lookups answered from the cache */
+  hits: number;
+  /** Lookups that went to the key pool */
+  misses: number;
+  /** Share of lookups answered from the cache (0-1) */
+  hitRate: number;
 }
 
 /**
@@ -101,16 +482,34 @@ export interface HealthStatus {
   availableKeys: number;
   /** Total number of keys in pool */
   totalKeys: number;
-  /** Combined RPS capacity of available keys */
+  /** Combined RPS capacity of available keys, capped by the global limits */
   effectiveRps: number;
   /** Combined remaining quota of available keys */
   effectiveQuotaRemaining: number;
   /** Combined total quota of all keys */
   effectiveQuotaTotal: number;
+  /** Usage of each key group */
+  groups: GroupStats[];
   /** Current warnings */
   warnings: HealthWarning[];
 }
 
+/**
+ * Statistics for a key group
+ */
+export interface GroupStats {
+  /** Group identifier */
+  id: string;
+  /** Number of keys in the group */
+  keyCount: number;
+  /** Quota used by the group in the current period */
+  quotaUsed: number;
+  /** Quota remaining for the group in the current period */
+  quotaRemaining: number;
+  /** Whether the group's quota is exhausted */
+  isExhausted: boolean;
+}
+
 /**
  * A health warning for monitoring
  */
@@ -125,6 +524,31 @@ export interface HealthWarning {
   timestamp: Date;
 }
 
+/**
+ * A key that can take the request being selected for
+ */
+export interface SelectionCandidate {
+  /** The key's position in the pool */
+  index: number;
+  /** The key's state */
+  state: KeyState;
+  /** The key's current statistics */
+  stats: KeyStats;
+}
+
+/**
+ * Policy for picking which available key serves a request
+ */
+export interface SelectionStrategy {
+  /**
+   * Pick one of the candidates, given in pool order
+   * Only called with at least one candidate
+   */
+  select(candidates: SelectionCandidate[]): SelectionCandidate;
+  /** Forget any state kept between selections */
+  reset?(): void;
+}
+
 /**
  * Statistics for a single key
  */
@@ -145,10 +569,32 @@ export interface KeyStats {
   currentRps: number;
   /** Configured RPS limit */
   rpsLimit: number | null;
+  /** Rate learned by adaptive rate limiting, null if the key isn't adaptive */
+  learnedRps: number | null;
+  /** Usage of each of the key's additional limits, in config order */
+  limits: LimitStats[];
+  /** Requests currently in flight on this key */
+  inFlight: number;
   /** Consecutive failure count */
   consecutiveFailures: number;
 }
 
+/**
+ * Usage of a single rate limit window
+ */
+export interface LimitStats {
+  /** What the limit counts */
+  unit: 'requests' | 'tokens';
+  /** Window the limit applies to */
+  per: 'second' | 'minute' | 'hour' | 'day';
+  /** Maximum units per window */
+  max: number;
+  /** Units used in the current window */
+  used: number;
+  /** Units still available in the current window */
+  remaining: number;
+}
+
 /**
  * Storage adapter interface for persisting pool state
  */
@@ -159,6 +605,12 @@ export interface StorageAdapter {
   set(key: string, value: string, ttl?: number): Promise<void>;
   /** Delete a value */
   delete(key: string): Promise<void>;
+  /**
+   * Atomically set a value only if it still equals `expected` (null if the
+   * key must not exist). Returns whether the value was set.
+   * Required for distributed rate limiting
+   */
+  compareAndSet?(key: string, expected: string | null, value: string, ttl?: number): Promise<boolean>;
 }
 
 /**
@@ -181,10 +633,73 @@ export interface KeyState {
   consecutiveFailures: number;
   /** Last used timestamp */
   lastUsed: Date | null;
+  /**
+   * Order of the key's most recent selection, higher is more recent (0 if
+   * never selected). Set as soon as the key is picked, unlike lastUsed
+   */
+  lastSelected: number;
   /** Token bucket state for RPS limiting */
   tokens: number;
   /** Last token refill timestamp */
   lastTokenRefill: Date;
+  /** Rate learned by adaptive rate limiting, used in place of config.rps */
+  learnedRps: number | null;
+  /** Provider's rate limit window last reported by a response */
+  providerWindow: ProviderWindow | null;
+  /** Requests currently in flight, counted against config.maxConcurrent */
+  inFlight: number;
+  /** Requests admitted within the last second, for the sliding-window algorithm */
+  requestLog: RequestLogEntry[];
+  /** Token bucket state for each of config.limits, in the same order */
+  limitBuckets: LimitBucket[];
+}
+
+/**
+ * Internal state for a key group
+ */
+export interface GroupState {
+  /** Group identifier */
+  id: string;
+  /** Group configuration */
+  config: GroupConfig;
+  /** Quota used in current period */
+  quotaUsed: number;
+  /** Quota period start timestamp */
+  periodStart: Date;
+  /** Rate limits enforced for the group, including its rps */
+  limits: RateLimitConfig[];
+  /** Token bucket state for each of limits, in the same order */
+  limitBuckets: LimitBucket[];
+}
+
+/**
+ * Token bucket state for a rate limit
+ */
+export interface LimitBucket {
+  /** Units currently available (negative while in debt) */
+  tokens: number;
+  /** Last refill timestamp */
+  lastRefill: Date;
+}
+
+/**
+ * A request admitted by the sliding-window algorithm
+ */
+export interface RequestLogEntry {
+  /** When the request was admitted (ms since epoch) */
+  at: number;
+  /** Units of rps the request consumed */
+  cost: number;
+}
+
+/**
+ * Requests left in the provider's rate limit window for a key
+ */
+export interface ProviderWindow {
+  /** Requests the provider still allows until resetAt */
+  remaining: number;
+  /** When the provider's window resets */
+  resetAt: Date;
 }
 
 /**
@@ -194,15 +709,49 @@ export interface QueuedRequest<TResponse> {
   /** Unique request ID */
   id: string;
   /** The request function to execute */
-  execute: (keyValue: string) => Promise<TResponse>;
+  execute: (keyValue: string, context: ExecutionContext) => Promise<TResponse>;
   /** Resolve the promise */
   resolve: (value: TResponse) => void;
   /** Reject the promise */
   reject: (error: Error) => void;
+  /** Whether the promise was already resolved or rejected, e.g. on timeout or abort */
+  settled: boolean;
   /** When the request was queued */
   queuedAt: Date;
   /** Maximum wait time */
   maxWaitMs: number;
+  /** Priority lane */
+  priority: RequestPriority;
+  /** Rate limit tokens and quota units consumed per attempt */
+  cost: number;
+  /** Tokens reserved from the key's tokens limits per attempt */
+  estimatedTokens: number;
+  /** Abort signal from the caller */
+  signal?: AbortSignal | undefined;
+  /** Per-attempt timeout */
+  attemptTimeoutMs?: number | undefined;
+  /** Overall deadline, measured from queuedAt */
+  deadlineMs?: number | undefined;
+  /** Hedging configuration */
+  hedge?: HedgeConfig | undefined;
+  /** Whether the response is a stream whose outcome is recorded when it ends */
+  stream: boolean;
+  /** Parked until this time while waiting for a key to become available */
+  parkedUntil: Date | null;
   /** Retry count */
   retryCount: number;
+  /** Number of attempts started */
+  attempts: number;
+  /** Record of the request's execution */
+  trace: RequestTrace;
+}
+
+/**
+ * Record of a request's execution, filled in by the executor
+ */
+export interface RequestTrace {
+  /** When the request was first picked up for execution */
+  startedAt: Date | null;
+  /** Attempts that have ended */
+  attempts: AttemptInfo[];
 }
@@ -1,7 +1,13 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { createKeyPool, type KeyPool, memoryAdapter, type StorageAdapter } from '@gblikas/keyrot/client';
+import {
+  createKeyPool,
+  type ExecutionContext,
+  type KeyPool,
+  memoryAdapter,
+  type StorageAdapter,
+} from '@gblikas/keyrot/client';
 
 /**
  * Simulated API keys for demonstration
@@ -28,18 +34,6 @@ const DEMO_KEYS = [
   },
 ];
 
-/**
- * Mapping from key values to key IDs for display purposes
- */
-const KEY_VALUE_TO_ID = new Map(DEMO_KEYS.map(k => [k.value, k.id]));
-
-/**
- * Get the key ID from a key value
- */
-function getKeyIdFromValue(value: string): string {
-  return KEY_VALUE_TO_ID.get(value) ?? value;
-}
-
 /**
  * Result type that wraps a response with the key ID used
  */
@@ -94,11 +88,11 @@ interface SimulateOptions {
  * In a real app, this would be a call to OpenAI, Anthropic, etc.
  */
 async function simulateApiCall(
-  apiKey: string,
+  context: ExecutionContext,
   options: SimulateOptions
 ): Promise<ApiResult> {
-  // Get the key ID for display purposes
-  const keyId = getKeyIdFromValue(apiKey);
+  // The key ID is reported for display purposes
+  const { keyId } = context;
   
   // Simulate network latency
   await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 100));
@@ -309,7 +303,7 @@ export function useKeyPool() {
 
     try {
       const result = await pool.execute(
-        async (keyValue) => simulateApiCall(keyValue, options),
+        async (_keyValue, context) => simulateApiCall(context, options),
         { maxWaitMs: 5000 }
       );
 
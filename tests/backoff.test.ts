@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { RetryBackoff } from '../app/backoff.js';
+import type { RetryBackoffConfig } from '../app/types.js';
+
+function createBackoff(
+  overrides: RetryBackoffConfig = {},
+  random: () => number = () => 0.5
+): RetryBackoff {
+  return new RetryBackoff({
+    config: {
+      baseMs: 100,
+      maxMs: 10000,
+      multiplier: 2,
+      jitter: 'none',
+      ...overrides,
+    },
+    random,
+  });
+}
+
+describe('RetryBackoff', () => {
+  describe('getDelay', () => {
+    it('should grow exponentially without jitter', () => {
+      const backoff = createBackoff();
+
+      expect(backoff.getDelay(1)).toBe(100);
+      expect(backoff.getDelay(2)).toBe(200);
+      expect(backoff.getDelay(3)).toBe(400);
+    });
+
+    it('should cap the delay at maxMs', () => {
+      const backoff = createBackoff({ maxMs: 300 });
+
+      expect(backoff.getDelay(2)).toBe(200);
+      expect(backoff.getDelay(3)).toBe(300);
+      expect(backoff.getDelay(10)).toBe(300);
+    });
+
+    it('should use the multiplier', () => {
+      const backoff = createBackoff({ multiplier: 3 });
+
+      expect(backoff.getDelay(3)).toBe(900);
+    });
+
+    it('should apply full jitter between 0 and the delay', () => {
+      expect(createBackoff({ jitter: 'full' }, () => 0).getDelay(2)).toBe(0);
+      expect(createBackoff({ jitter: 'full' }, () => 0.5).getDelay(2)).toBe(100);
+      expect(createBackoff({ jitter: 'full' }, () => 0.999).getDelay(2)).toBe(200);
+    });
+
+    it('should apply equal jitter between half and the full delay', () => {
+      expect(createBackoff({ jitter: 'equal' }, () => 0).getDelay(2)).toBe(100);
+      expect(createBackoff({ jitter: 'equal' }, () => 0.5).getDelay(2)).toBe(150);
+      expect(createBackoff({ jitter: 'equal' }, () => 0.999).getDelay(2)).toBe(200);
+    });
+  });
+});
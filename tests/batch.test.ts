@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { runBatch } from '../app/batch.js';
+import { QueueFullError } from '../app/errors.js';
+
+describe('runBatch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return results in item order', async () => {
+    const promise = runBatch({
+      items: [30, 10, 20],
+      concurrency: 3,
+      stopOnError: false,
+      execute: async (delay) => {
+        await new Promise(r => setTimeout(r, delay));
+        return delay * 2;
+      },
+    });
+
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.results.map(r => r.status === 'fulfilled' && r.value)).toEqual([60, 20, 40]);
+    expect(result.succeeded).toBe(3);
+    expect(result.totalMs).toBe(30);
+  });
+
+  it('should limit the number of items in flight', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const promise = runBatch({
+      items: Array.from({ length: 10 }, (_, i) => i),
+      concurrency: 3,
+      stopOnError: false,
+      execute: async (item) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(r => setTimeout(r, 10));
+        active--;
+        return item;
+      },
+    });
+
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(maxActive).toBe(3);
+  });
+
+  it('should report failures per item', async () => {
+    const promise = runBatch({
+      items: [1, 2, 3],
+      concurrency: 1,
+      stopOnError: false,
+      execute: async (item) => {
+        if (item === 2) {
+          throw new Error('item 2 failed');
+        }
+        return item;
+      },
+    });
+
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(result.results[1]).toMatchObject({ status: 'rejected' });
+    expect((result.results[1] as { reason: Error }).reason.message).toBe('item 2 failed');
+    expect(result.succeeded).toBe(2);
+    expect(result.failed).toBe(1);
+  });
+
+  it('should skip remaining items with stopOnError', async () => {
+    const executed: number[] = [];
+
+    const promise = runBatch({
+      items: [1, 2, 3, 4],
+      concurrency: 1,
+      stopOnError: true,
+      execute: async (item) => {
+        executed.push(item);
+        if (item === 2) {
+          throw new Error('failed');
+        }
+        return item;
+      },
+    });
+
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(executed).toEqual([1, 2]);
+    expect(result.results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'skipped', 'skipped']);
+    expect(result.skipped).toBe(2);
+  });
+
+  it('should wait and resubmit when the queue is full', async () => {
+    let attempts = 0;
+
+    const promise = runBatch({
+      items: ['a'],
+      concurrency: 1,
+      stopOnError: false,
+      execute: async (item) => {
+        attempts++;
+        if (attempts === 1) {
+          throw new QueueFullError({ queueSize: 10, maxQueueSize: 10, retryAfterMs: 500 });
+        }
+        return item;
+      },
+    });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(attempts).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const result = await promise;
+
+    expect(attempts).toBe(2);
+    expect(result.results[0]).toMatchObject({ status: 'fulfilled', value: 'a' });
+  });
+
+  it('should skip items when aborted while the queue is full', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+
+    const promise = runBatch({
+      items: ['a', 'b'],
+      concurrency: 1,
+      stopOnError: false,
+      signal: controller.signal,
+      execute: async () => {
+        attempts++;
+        throw new QueueFullError({ queueSize: 10, maxQueueSize: 10, retryAfterMs: 60000 });
+      },
+    });
+
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+    const result = await promise;
+
+    expect(attempts).toBe(1);
+    expect(result.results.map(r => r.status)).toEqual(['skipped', 'skipped']);
+    expect(result.skipped).toBe(2);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ResponseCache, responseSerializer } from '../app/cache.js';
+import { MemoryStorageAdapter } from '../app/storage/memory.js';
+import type { StorageAdapter } from '../app/types.js';
+
+describe('ResponseCache', () => {
+  let storage: MemoryStorageAdapter;
+  let cache: ResponseCache<{ value: number }>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new MemoryStorageAdapter();
+    cache = new ResponseCache({
+      config: { adapter: storage },
+      defaultTtlMs: 60000,
+    });
+  });
+
+  describe('get', () => {
+    it('should return null on a miss', async () => {
+      expect(await cache.get('missing')).toBeNull();
+    });
+
+    it('should return a stored response', async () => {
+      await cache.set('key', { value: 42 });
+      expect(await cache.get('key')).toEqual({ value: 42 });
+    });
+
+    it('should expire entries after the TTL', async () => {
+      await cache.set('key', { value: 42 }, 2000);
+
+      vi.advanceTimersByTime(2001);
+
+      expect(await cache.get('key')).toBeNull();
+    });
+
+    it('should treat unreadable entries as a miss', async () => {
+      await storage.set('cache:key', 'not valid json');
+      expect(await cache.get('key')).toBeNull();
+    });
+
+    it('should treat adapter failures as a miss', async () => {
+      const failing: StorageAdapter = {
+        get: async () => { throw new Error('unavailable'); },
+        set: async () => { throw new Error('unavailable'); },
+        delete: async () => {},
+      };
+      const failingCache = new ResponseCache<string>({
+        config: { adapter: failing },
+        defaultTtlMs: 60000,
+      });
+
+      await failingCache.set('key', 'value');
+      expect(await failingCache.get('key')).toBeNull();
+    });
+  });
+
+  describe('set', () => {
+    it('should use the custom serializer', async () => {
+      const custom = new ResponseCache<number>({
+        config: {
+          adapter: storage,
+          serialize: value => `n:${value}`,
+          deserialize: data => Number(data.slice(2)),
+        },
+        defaultTtlMs: 60000,
+      });
+
+      await custom.set('key', 7);
+
+      expect(await storage.get('cache:key')).toBe('n:7');
+      expect(await custom.get('key')).toBe(7);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should count hits and misses', async () => {
+      await cache.get('key');
+      await cache.set('key', { value: 1 });
+      await cache.get('key');
+      await cache.get('key');
+
+      expect(cache.getStats()).toEqual({
+        hits: 2,
+        misses: 1,
+        hitRate: 2 / 3,
+      });
+    });
+
+    it('should report a zero hit rate before any lookup', () => {
+      expect(cache.getStats().hitRate).toBe(0);
+    });
+  });
+});
+
+describe('responseSerializer', () => {
+  it('should round-trip status, headers and body', async () => {
+    const original = new Response('{"ok":true}', {
+      status: 201,
+      statusText: 'Created',
+      headers: { 'content-type': 'application/json' },
+    });
+
+    const data = await responseSerializer.serialize(original);
+    const restored = responseSerializer.deserialize(data);
+
+    expect(restored.status).toBe(201);
+    expect(restored.statusText).toBe('Created');
+    expect(restored.headers.get('content-type')).toBe('application/json');
+    expect(await restored.text()).toBe('{"ok":true}');
+  });
+
+  it('should leave the original body readable', async () => {
+    const original = new Response('body');
+
+    await responseSerializer.serialize(original);
+
+    expect(await original.text()).toBe('body');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DistributedRateLimiter } from '../app/distributed-rate-limiter.js';
+import { MemoryStorageAdapter } from '../app/storage/memory.js';
+import type { KeyState, KeyConfig } from '../app/types.js';
+
+function createKeyState(overrides: Partial<KeyConfig> = {}): KeyState {
+  const config: KeyConfig = {
+    id: 'test-key',
+    value: 'test-value',
+    quota: { type: 'unlimited' },
+    rps: 2,
+    ...overrides,
+  };
+
+  return {
+    config,
+    quotaUsed: 0,
+    periodStart: new Date(),
+    rateLimitedUntil: null,
+    circuitState: 'closed',
+    circuitOpenUntil: null,
+    consecutiveFailures: 0,
+    lastUsed: null,
+    lastSelected: 0,
+    tokens: config.rps ?? 0,
+    lastTokenRefill: new Date(),
+    learnedRps: null,
+    providerWindow: null,
+    inFlight: 0,
+    requestLog: [],
+    limitBuckets: [],
+  };
+}
+
+describe('DistributedRateLimiter', () => {
+  let storage: MemoryStorageAdapter;
+  let limiter: DistributedRateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new MemoryStorageAdapter();
+    limiter = new DistributedRateLimiter({ storage, maxClockSkewMs: 1000, maxAttempts: 5 });
+  });
+
+  it('should share a key bucket between processes', async () => {
+    // Two replicas, each with its own limiter and key state
+    const other = new DistributedRateLimiter({ storage, maxClockSkewMs: 1000, maxAttempts: 5 });
+    const local = createKeyState();
+    const remote = createKeyState();
+
+    expect(await limiter.tryConsume(local, 2)).toBe(true);
+    expect(await other.tryConsume(remote, 2)).toBe(true);
+    expect(await limiter.tryConsume(local, 2)).toBe(false);
+
+    // The local bucket learns that other processes drained the key
+    expect(local.tokens).toBe(0);
+  });
+
+  it('should refill the shared bucket over time', async () => {
+    const state = createKeyState();
+    await limiter.tryConsume(state, 2, 2);
+    expect(await limiter.tryConsume(state, 2)).toBe(false);
+
+    vi.advanceTimersByTime(500);
+    expect(await limiter.tryConsume(state, 2)).toBe(true);
+  });
+
+  it('should hold up to capacity tokens', async () => {
+    const state = createKeyState();
+    expect(await limiter.tryConsume(state, 2, 5, 5)).toBe(true);
+    expect(await limiter.tryConsume(state, 2, 1, 5)).toBe(false);
+
+    vi.advanceTimersByTime(10000);
+    expect(await limiter.tryConsume(state, 2, 5, 5)).toBe(true);
+  });
+
+  it('should let only one of two concurrent requests take the last token', async () => {
+    const state = createKeyState({ rps: 1 });
+
+    const results = await Promise.all([
+      limiter.tryConsume(state, 1),
+      limiter.tryConsume(state, 1),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should not refill for a process whose clock runs behind', async () => {
+    const state = createKeyState();
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 1, 0, 0, 0, 500)));
+    await limiter.tryConsume(state, 2, 2);
+
+    // A replica 500ms behind sees the bucket as just updated
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 1)));
+    expect(await limiter.tryConsume(state, 2)).toBe(false);
+  });
+
+  it('should replace a timestamp too far in the future', async () => {
+    const state = createKeyState();
+    const now = Date.now();
+    await storage.set('ratelimit:test-key', JSON.stringify({ tokens: 0, updatedAt: now + 60000 }));
+
+    expect(await limiter.tryConsume(state, 2)).toBe(false);
+
+    vi.advanceTimersByTime(500);
+    expect(await limiter.tryConsume(state, 2)).toBe(true);
+  });
+
+  it('should fall back to the local bucket when the storage fails', async () => {
+    const failing = new DistributedRateLimiter({
+      storage: {
+        get: async () => { throw new Error('storage down'); },
+        set: async () => {},
+        delete: async () => {},
+        compareAndSet: async () => { throw new Error('storage down'); },
+      },
+      maxClockSkewMs: 1000,
+      maxAttempts: 5,
+    });
+    const state = createKeyState();
+    state.tokens = 1;
+
+    expect(await failing.tryConsume(state, 2)).toBe(true);
+    expect(state.tokens).toBe(1);
+  });
+});
@@ -4,7 +4,12 @@ import {
   QueueTimeoutError,
   AllKeysExhaustedError,
   QueueFullError,
+  RequestAbortedError,
+  AttemptTimeoutError,
+  DeadlineExceededError,
   InvalidKeyConfigError,
+  InvalidPoolConfigError,
+  InvalidExecuteOptionsError,
   NoKeysConfiguredError,
 } from '../app/errors.js';
 
@@ -119,6 +124,19 @@ describe('Errors', () => {
       expect(error.message).toContain('Circuit open: 1');
       expect(error.message).toContain('Rate limited: 1');
     });
+
+    it('should mention keys at their concurrency limit', () => {
+      const error = new AllKeysExhaustedError({
+        retryAfterMs: 60000,
+        exhaustedKeys: 0,
+        circuitOpenKeys: 0,
+        rateLimitedKeys: 0,
+        concurrencySaturatedKeys: 2,
+        totalKeys: 2,
+      });
+      expect(error.concurrencySaturatedKeys).toBe(2);
+      expect(error.message).toContain('Concurrency saturated: 2');
+    });
   });
 
   describe('QueueFullError', () => {
@@ -161,6 +179,59 @@ describe('Errors', () => {
     });
   });
 
+  describe('RequestAbortedError', () => {
+    it('should be an instance of KeyrotError', () => {
+      const error = new RequestAbortedError();
+      expect(error).toBeInstanceOf(KeyrotError);
+    });
+
+    it('should have correct name', () => {
+      const error = new RequestAbortedError();
+      expect(error.name).toBe('RequestAbortedError');
+    });
+
+    it('should expose the abort reason', () => {
+      const error = new RequestAbortedError('user cancelled');
+      expect(error.reason).toBe('user cancelled');
+    });
+  });
+
+  describe('AttemptTimeoutError', () => {
+    it('should be an instance of KeyrotError', () => {
+      const error = new AttemptTimeoutError({ keyId: 'key-1', timeoutMs: 1000 });
+      expect(error).toBeInstanceOf(KeyrotError);
+    });
+
+    it('should have correct name', () => {
+      const error = new AttemptTimeoutError({ keyId: 'key-1', timeoutMs: 1000 });
+      expect(error.name).toBe('AttemptTimeoutError');
+    });
+
+    it('should expose properties', () => {
+      const error = new AttemptTimeoutError({ keyId: 'key-1', timeoutMs: 1000 });
+      expect(error.keyId).toBe('key-1');
+      expect(error.timeoutMs).toBe(1000);
+    });
+  });
+
+  describe('DeadlineExceededError', () => {
+    it('should be an instance of KeyrotError', () => {
+      const error = new DeadlineExceededError({ deadlineMs: 5000, elapsedMs: 5002 });
+      expect(error).toBeInstanceOf(KeyrotError);
+    });
+
+    it('should have correct name', () => {
+      const error = new DeadlineExceededError({ deadlineMs: 5000, elapsedMs: 5002 });
+      expect(error.name).toBe('DeadlineExceededError');
+    });
+
+    it('should expose properties', () => {
+      const error = new DeadlineExceededError({ deadlineMs: 5000, elapsedMs: 5002 });
+      expect(error.deadlineMs).toBe(5000);
+      expect(error.elapsedMs).toBe(5002);
+    });
+  });
+
   describe('InvalidKeyConfigError', () => {
     it('should be an instance of KeyrotError', () => {
       const error = new InvalidKeyConfigError('test-key', 'Invalid value');
@@ -184,6 +255,40 @@ describe('Errors', () => {
     });
   });
 
+  describe('InvalidPoolConfigError', () => {
+    it('should be an instance of KeyrotError', () => {
+      const error = new InvalidPoolConfigError('Invalid value');
+      expect(error).toBeInstanceOf(KeyrotError);
+    });
+
+    it('should have correct name', () => {
+      const error = new InvalidPoolConfigError('Invalid value');
+      expect(error.name).toBe('InvalidPoolConfigError');
+    });
+
+    it('should have descriptive message', () => {
+      const error = new InvalidPoolConfigError('Storage must support compareAndSet');
+      expect(error.message).toContain('Storage must support compareAndSet');
+    });
+  });
+
+  describe('InvalidExecuteOptionsError', () => {
+    it('should be an instance of KeyrotError', () => {
+      const error = new InvalidExecuteOptionsError('Invalid value');
+      expect(error).toBeInstanceOf(KeyrotError);
+    });
+
+    it('should have correct name', () => {
+      const error = new InvalidExecuteOptionsError('Invalid value');
+      expect(error.name).toBe('InvalidExecuteOptionsError');
+    });
+
+    it('should have descriptive message', () => {
+      const error = new InvalidExecuteOptionsError('Cost must be a positive number');
+      expect(error.message).toContain('Cost must be a positive number');
+    });
+  });
+
   describe('NoKeysConfiguredError', () => {
     it('should be an instance of KeyrotError', () => {
       const error = new NoKeysConfiguredError();
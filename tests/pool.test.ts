@@ -3,10 +3,18 @@ import { createKeyPool, type KeyPool } from '../app/pool.js';
 import {
   NoKeysConfiguredError,
   InvalidKeyConfigError,
+  InvalidPoolConfigError,
   AllKeysExhaustedError,
   QueueTimeoutError,
+  RequestAbortedError,
+  AttemptTimeoutError,
+  DeadlineExceededError,
 } from '../app/errors.js';
-import type { KeyConfig, StorageAdapter } from '../app/types.js';
+import { responseSerializer } from '../app/cache.js';
+import { parseRateLimitHeaders } from '../app/rate-limit-headers.js';
+import { memoryAdapter } from '../app/storage/memory.js';
+import { registerSelectionStrategy } from '../app/strategies.js';
+import type { ExecutionContext, KeyConfig, StorageAdapter } from '../app/types.js';
 
 // Helper to silence unhandled promise rejections in tests
 function silenceRejection(promise: Promise<unknown>): void {
@@ -72,6 +80,104 @@ describe('createKeyPool', () => {
       })).toThrow(InvalidKeyConfigError);
     });
 
+    it('should throw InvalidKeyConfigError for invalid limits', () => {
+      expect(() => createKeyPool({
+        keys: [{
+          id: 'test',
+          value: 'test',
+          quota: { type: 'unlimited' },
+          limits: [{ unit: 'tokens', per: 'minute', max: 0 }],
+        }],
+      })).toThrow(InvalidKeyConfigError);
+    });
+
+    it('should throw InvalidKeyConfigError for burst without rps', () => {
+      expect(() => createKeyPool({
+        keys: [{ id: 'test', value: 'test', quota: { type: 'unlimited' }, burst: 5 }],
+      })).toThrow(InvalidKeyConfigError);
+    });
+
+    it('should throw InvalidKeyConfigError for burst with the sliding-window algorithm', () => {
+      expect(() => createKeyPool({
+        keys: [{
+          id: 'test',
+          value: 'test',
+          quota: { type: 'unlimited' },
+          rps: 10,
+          burst: 5,
+          algorithm: 'sliding-window',
+        }],
+      })).toThrow(InvalidKeyConfigError);
+    });
+
+    it('should throw InvalidKeyConfigError for adaptive keys without rps', () => {
+      expect(() => createKeyPool({
+        keys: [{ id: 'test', value: 'test', quota: { type: 'unlimited' }, adaptive: true }],
+      })).toThrow(InvalidKeyConfigError);
+    });
+
+    it('should throw InvalidKeyConfigError for an invalid adaptive decrease', () => {
+      expect(() => createKeyPool({
+        keys: [{
+          id: 'test',
+          value: 'test',
+          quota: { type: 'unlimited' },
+          rps: 10,
+          adaptive: { decrease: 1.5 },
+        }],
+      })).toThrow(InvalidKeyConfigError);
+    });
+
+    it('should throw InvalidPoolConfigError for distributed rate limiting without compareAndSet', () => {
+      const storage: StorageAdapter = {
+        get: async () => null,
+        set: async () => {},
+        delete: async () => {},
+      };
+
+      expect(() => createKeyPool({
+        keys: createTestKeys(),
+        storage,
+        distributedRateLimit: {},
+      })).toThrow(InvalidPoolConfigError);
+    });
+
+    it('should throw InvalidPoolConfigError for invalid global limits', () => {
+      expect(() => createKeyPool({
+        keys: createTestKeys(),
+        globalLimits: [{ per: 'minutes' as 'minute', max: 100 }],
+      })).toThrow(InvalidPoolConfigError);
+
+      expect(() => createKeyPool({
+        keys: createTestKeys(),
+        globalLimits: [{ per: 'minute', max: 0 }],
+      })).toThrow(InvalidPoolConfigError);
+    });
+
+    it('should throw InvalidPoolConfigError for invalid groups', () => {
+      const keys = [{ id: 'test', value: 'test', quota: { type: 'unlimited' as const }, group: 'org' }];
+
+      expect(() => createKeyPool({ keys, groups: { org: { rps: -1 } } }))
+        .toThrow(InvalidPoolConfigError);
+      expect(() => createKeyPool({ keys, groups: { org: { limits: [{ per: 'hour', max: -5 }] } } }))
+        .toThrow(InvalidPoolConfigError);
+      expect(() => createKeyPool({ keys, groups: { org: { quota: { type: 'monthly', limit: 0 } } } }))
+        .toThrow(InvalidPoolConfigError);
+    });
+
+    it('should throw InvalidKeyConfigError for an unknown group', () => {
+      expect(() => createKeyPool({
+        keys: [{ id: 'test', value: 'test', quota: { type: 'unlimited' }, group: 'org' }],
+      })).toThrow(InvalidKeyConfigError);
+    });
+
+    it('should throw InvalidPoolConfigError for an unknown selection strategy', () => {
+      expect(() => createKeyPool({
+        keys: createTestKeys(),
+        strategy: 'fastest',
+      })).toThrow(InvalidPoolConfigError);
+    });
+
     it('should accept valid configuration', () => {
       const pool = createKeyPool({ keys: createTestKeys() });
       expect(pool).toBeDefined();
@@ -91,216 +197,1563 @@ describe('createKeyPool', () => {
       await vi.runAllTimersAsync();
       await promise;
 
-      expect(usedKey).toMatch(/^test-value-\d+$/);
-    });
+      expect(usedKey).toMatch(/^test-value-\d+$/);
+    });
+
+    it('should rotate keys on rate limit', async () => {
+      const usedKeys: string[] = [];
+      let callCount = 0;
+
+      const pool = createKeyPool({
+        keys: createTestKeys(3),
+        isRateLimited: (res) => res.status === 429,
+        getRetryAfter: () => 30,
+      });
+
+      const promise = pool.execute(async (keyValue) => {
+        usedKeys.push(keyValue);
+        callCount++;
+        // First 2 calls return 429, third succeeds
+        return new Response('OK', { status: callCount < 3 ? 429 : 200 });
+      });
+
+      await vi.runAllTimersAsync();
+      await promise;
+
+      // Should have tried 3 different keys
+      expect(usedKeys.length).toBe(3);
+      expect(new Set(usedKeys).size).toBe(3); // All different keys
+    });
+
+    it('should throw AllKeysExhaustedError when no keys available', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(2),
+        isRateLimited: () => true, // All return 429
+        getRetryAfter: () => 30,
+        maxRetries: 2,
+      }));
+
+      const promise = pool.execute(async () => {
+        return new Response('Too Many Requests', { status: 429 });
+      });
+      silenceRejection(promise);
+
+      await vi.runAllTimersAsync();
+
+      await expect(promise).rejects.toThrow(AllKeysExhaustedError);
+    });
+
+    it('should respect maxWaitMs option', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(),
+        maxQueueSize: 100, // Large queue to allow second request
+      }));
+
+      // First request blocks (silence it since it won't complete)
+      const blockingPromise = pool.execute(async () => {
+        await new Promise(() => {}); // Never resolves
+        return new Response('OK');
+      });
+      silenceRejection(blockingPromise);
+
+      // Second request should timeout while waiting
+      const promise = pool.execute(
+        async () => new Response('OK'),
+        { maxWaitMs: 100 }
+      );
+      silenceRejection(promise);
+
+      vi.advanceTimersByTime(101);
+      await vi.runAllTimersAsync();
+
+      await expect(promise).rejects.toThrow(QueueTimeoutError);
+    });
+
+    it('should forward the abort signal to the request function', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys() }));
+      const controller = new AbortController();
+      let receivedSignal: AbortSignal | undefined;
+
+      const promise = pool.execute(async (_keyValue, { signal }) => {
+        receivedSignal = signal;
+        return new Promise<Response>(() => {});
+      }, { signal: controller.signal });
+      silenceRejection(promise);
+
+      await new Promise(resolve => process.nextTick(resolve));
+      expect(receivedSignal?.aborted).toBe(false);
+
+      controller.abort('cancelled');
+
+      expect(receivedSignal?.aborted).toBe(true);
+      expect(receivedSignal?.reason).toBe('cancelled');
+    });
+
+    it('should pass the key and attempt details in the context', async () => {
+      const keys = createTestKeys(2);
+      keys[0]!.metadata = { tier: 'free' };
+      const pool = trackPool(createKeyPool({
+        keys,
+        isError: (res) => res.status >= 500,
+      }));
+      const contexts: ExecutionContext[] = [];
+
+      const promise = pool.execute(async (keyValue, context) => {
+        expect(context.keyValue).toBe(keyValue);
+        contexts.push(context);
+        return new Response('', { status: contexts.length === 1 ? 500 : 200 });
+      }, { deadlineMs: 5000 });
+
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(contexts).toHaveLength(2);
+      expect(contexts[0]).toMatchObject({
+        keyId: 'key-1',
+        metadata: { tier: 'free' },
+        attempt: 1,
+        remainingMs: 5000,
+      });
+      expect(contexts[1]).toMatchObject({ keyId: 'key-2', metadata: {}, attempt: 2 });
+      expect(contexts[0]!.requestId).toEqual(expect.any(String));
+      expect(contexts[1]!.requestId).toBe(contexts[0]!.requestId);
+    });
+
+    it('should report a null remaining time without a deadline', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+      let remainingMs: number | null | undefined;
+
+      const promise = pool.execute(async (_keyValue, context) => {
+        remainingMs = context.remainingMs;
+        return new Response('OK');
+      });
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(remainingMs).toBeNull();
+    });
+
+    it('should charge the cost in quota and rate limit tokens', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{ id: 'key-1', value: 'value-1', quota: { type: 'monthly', limit: 100 }, rps: 10 }],
+      }));
+
+      const promise = pool.execute(async () => new Response('OK'), { cost: 4 });
+      await vi.runAllTimersAsync();
+      await promise;
+
+      const stats = pool.getKeyStats('key-1');
+      expect(stats?.quotaUsed).toBe(4);
+      expect(stats?.currentRps).toBe(4);
+    });
+
+    it('should skip keys without enough quota for the cost', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'value-1', quota: { type: 'total', limit: 3 } },
+          { id: 'key-2', value: 'value-2', quota: { type: 'total', limit: 10 } },
+        ],
+      }));
+      const usedKeys: string[] = [];
+
+      const promise = pool.execute(async (_keyValue, { keyId }) => {
+        usedKeys.push(keyId);
+        return new Response('OK');
+      }, { cost: 5 });
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(usedKeys).toEqual(['key-2']);
+      expect(pool.getKeyStats('key-1')?.quotaUsed).toBe(0);
+      expect(pool.getKeyStats('key-2')?.quotaUsed).toBe(5);
+    });
+
+    it('should block a key once its token limit is used up', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{
+          id: 'key-1',
+          value: 'test',
+          quota: { type: 'unlimited' },
+          limits: [{ unit: 'tokens', per: 'minute', max: 1000 }],
+        }],
+        getUsage: (res) => ({ tokens: Number(res.headers.get('x-tokens')) }),
+      }));
+      const call = () => pool.execute(
+        async () => new Response('OK', { headers: { 'x-tokens': '900' } }),
+        { estimatedTokens: 200 }
+      );
+
+      const first = call();
+      await vi.advanceTimersByTimeAsync(0);
+      await first;
+
+      // 200 tokens were reserved but 900 used, leaving 100 of the 1000
+      const second = call();
+      silenceRejection(second);
+      await vi.advanceTimersByTimeAsync(0);
+
+      const error = await second.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(AllKeysExhaustedError);
+      // 100 more tokens refill in 6 seconds at 1000 per minute
+      expect((error as AllKeysExhaustedError).retryAfterMs).toBe(6000);
+    });
+
+    it('should correct a requests limit with the reported requests', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{
+          id: 'key-1',
+          value: 'test',
+          quota: { type: 'unlimited' },
+          limits: [{ unit: 'requests', per: 'minute', max: 3 }],
+        }],
+        getUsage: () => ({ requests: 3, tokens: 100 }),
+      }));
+      const call = () => pool.execute(async () => new Response('OK'));
+
+      const first = call();
+      await vi.advanceTimersByTimeAsync(0);
+      await first;
+
+      // The call reserved 1 request but reported 3, using up the limit
+      const second = call();
+      silenceRejection(second);
+      await vi.advanceTimersByTimeAsync(0);
+
+      await expect(second).rejects.toThrow(AllKeysExhaustedError);
+    });
+
+    it('should avoid a key the provider reports has no requests left', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(1),
+        getRateLimitState: (res) => parseRateLimitHeaders(res.headers),
+      }));
+
+      const first = pool.execute(async () => new Response('OK', {
+        headers: { 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '30s' },
+      }));
+      await vi.advanceTimersByTimeAsync(0);
+      await first;
+
+      const second = pool.execute(async () => new Response('OK'));
+      silenceRejection(second);
+      await vi.advanceTimersByTimeAsync(0);
+
+      const error = await second.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(AllKeysExhaustedError);
+      expect((error as AllKeysExhaustedError).retryAfterMs).toBe(30000);
+      expect(pool.getKeyStats('key-1')!.isRateLimited).toBe(true);
+    });
+
+    it('should share rate limits between pools using distributed storage', async () => {
+      const storage = memoryAdapter();
+      const keys: KeyConfig[] = [
+        { id: 'key-1', value: 'test-value-1', quota: { type: 'unlimited' }, rps: 2 },
+      ];
+      // Two replicas of the same pool
+      const first = trackPool(createKeyPool({ keys, storage, distributedRateLimit: {} }));
+      const second = trackPool(createKeyPool({ keys, storage, distributedRateLimit: {} }));
+
+      for (let i = 0; i < 2; i++) {
+        const promise = first.execute(async () => new Response('OK'));
+        await vi.advanceTimersByTimeAsync(0);
+        await promise;
+      }
+
+      // The second replica still has local tokens, but the shared bucket is empty
+      const promise = second.execute(async () => new Response('OK'));
+      silenceRejection(promise);
+      await vi.advanceTimersByTimeAsync(0);
+      await expect(promise).rejects.toBeInstanceOf(AllKeysExhaustedError);
+      expect(second.getKeyStats('key-1')!.isRateLimited).toBe(true);
+    });
+
+    it('should release concurrency slots when the shared storage fails', async () => {
+      const storage: StorageAdapter = {
+        get: async () => { throw new Error('storage down'); },
+        set: async () => {},
+        delete: async () => {},
+        compareAndSet: async () => { throw new Error('storage down'); },
+      };
+      const pool = trackPool(createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'value-1', quota: { type: 'unlimited' }, rps: 10, maxConcurrent: 1 },
+          { id: 'key-2', value: 'value-2', quota: { type: 'unlimited' }, rps: 10, maxConcurrent: 1 },
+        ],
+        distributedRateLimit: { storage },
+      }));
+
+      const promise = pool.execute(async () => new Response('OK'));
+      silenceRejection(promise);
+      await vi.advanceTimersByTimeAsync(0);
+      await promise.catch(() => {});
+
+      expect(pool.getKeyStats('key-1')!.inFlight).toBe(0);
+      expect(pool.getKeyStats('key-2')!.inFlight).toBe(0);
+    });
+
+    it('should not count shared storage failures against keys', async () => {
+      const storage: StorageAdapter = {
+        get: async () => { throw new Error('storage down'); },
+        set: async () => {},
+        delete: async () => {},
+        compareAndSet: async () => { throw new Error('storage down'); },
+      };
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(2),
+        distributedRateLimit: { storage },
+      }));
+      const fn = vi.fn(async () => {
+        await new Promise(r => setTimeout(r, 50));
+        return new Response('OK');
+      });
+
+      // The hedge consumes from the shared storage too
+      const promise = pool.execute(fn, { hedge: { afterMs: 10 } });
+      await vi.advanceTimersByTimeAsync(50);
+      await expect(promise).resolves.toBeInstanceOf(Response);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(pool.getAllKeyStats().map(stats => stats.consecutiveFailures)).toEqual([0, 0]);
+    });
+
+    it('should wait for a hedge still consuming from the shared storage', async () => {
+      const memory = memoryAdapter();
+      const storage: StorageAdapter = {
+        get: async (key) => {
+          if (key.endsWith('key-2')) {
+            await new Promise(r => setTimeout(r, 50));
+          }
+          return memory.get(key);
+        },
+        set: (key, value, ttl) => memory.set(key, value, ttl),
+        delete: (key) => memory.delete(key),
+        compareAndSet: (key, expected, value, ttl) => memory.compareAndSet(key, expected, value, ttl),
+      };
+      const pool = trackPool(createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'value-1', quota: { type: 'unlimited' }, rps: 10 },
+          { id: 'key-2', value: 'value-2', quota: { type: 'unlimited' }, rps: 10 },
+        ],
+        distributedRateLimit: { storage },
+      }));
+
+      // The primary fails while the hedge is still waiting on the storage
+      const promise = pool.execute(async (keyValue) => {
+        if (keyValue === 'value-1') {
+          await new Promise(r => setTimeout(r, 20));
+          throw new Error('primary failed');
+        }
+        return new Response('hedged');
+      }, { hedge: { afterMs: 10 } });
+      await vi.advanceTimersByTimeAsync(60);
+
+      const response = await promise;
+      expect(await response.text()).toBe('hedged');
+      expect(pool.getKeyStats('key-1')!.consecutiveFailures).toBe(1);
+      expect(pool.getKeyStats('key-2')!.inFlight).toBe(0);
+    });
+
+    it('should enforce global limits across all keys', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(3),
+        globalLimits: [{ per: 'second', max: 2 }],
+      }));
+
+      const first = pool.execute(async () => new Response('first'));
+      const second = pool.execute(async () => new Response('second'));
+      await vi.advanceTimersByTimeAsync(0);
+      await Promise.all([first, second]);
+
+      // Every key has capacity of its own, but the pool-wide limit is used up
+      const third = pool.execute(async () => new Response('third'));
+      silenceRejection(third);
+      await vi.advanceTimersByTimeAsync(0);
+
+      const error = await third.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(AllKeysExhaustedError);
+      expect((error as AllKeysExhaustedError).retryAfterMs).toBe(500);
+    });
+
+    it('should charge usage of any key in a group to the group quota', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'value-1', quota: { type: 'unlimited' }, group: 'org' },
+          { id: 'key-2', value: 'value-2', quota: { type: 'unlimited' }, group: 'org' },
+          { id: 'key-3', value: 'value-3', quota: { type: 'unlimited' } },
+        ],
+        groups: { org: { quota: { type: 'monthly', limit: 2 } } },
+      }));
+
+      const used: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        const promise = pool.execute(async (key) => {
+          used.push(key);
+          return new Response('ok');
+        });
+        await vi.advanceTimersByTimeAsync(0);
+        await promise;
+      }
+
+      // Once the group quota is used up, only the ungrouped key is selected
+      expect(used.slice(2)).toEqual(['value-3', 'value-3']);
+      expect(pool.getHealth().groups).toEqual([
+        { id: 'org', keyCount: 2, quotaUsed: 2, quotaRemaining: 0, isExhausted: true },
+      ]);
+    });
+
+    it('should stop retrying once aborted', async () => {
+      const controller = new AbortController();
+      let calls = 0;
+
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(3),
+        isError: (res) => res.status >= 500,
+      }));
+
+      const promise = pool.execute(async () => {
+        calls++;
+        controller.abort();
+        return new Response('Error', { status: 500 });
+      }, { signal: controller.signal });
+      silenceRejection(promise);
+
+      await vi.runAllTimersAsync();
+
+      await expect(promise).rejects.toThrow(RequestAbortedError);
+      expect(calls).toBe(1);
+    });
+
+    it('should not count an aborted attempt as a key failure', async () => {
+      const controller = new AbortController();
+
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+
+      const promise = pool.execute(async (_keyValue, { signal }) => {
+        return new Promise<Response>((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      }, { signal: controller.signal });
+      silenceRejection(promise);
+
+      await new Promise(resolve => process.nextTick(resolve));
+      controller.abort();
+      await vi.runAllTimersAsync();
+
+      await expect(promise).rejects.toThrow(RequestAbortedError);
+      expect(pool.getKeyStats('key-1')!.consecutiveFailures).toBe(0);
+    });
+
+    it('should retry on another key when an attempt times out', async () => {
+      const usedKeys: string[] = [];
+      let attemptSignal: AbortSignal | undefined;
+
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(2),
+        defaultAttemptTimeoutMs: 1000,
+      }));
+
+      const promise = pool.execute(async (keyValue, { signal }) => {
+        usedKeys.push(keyValue);
+        if (usedKeys.length === 1) {
+          attemptSignal = signal;
+          return new Promise<Response>(() => {}); // Hangs
+        }
+        return new Response('OK');
+      });
+
+      await vi.advanceTimersByTimeAsync(1001);
+      await promise;
+
+      expect(usedKeys).toEqual(['test-value-1', 'test-value-2']);
+      expect(attemptSignal?.aborted).toBe(true);
+      expect(pool.getKeyStats('key-1')!.consecutiveFailures).toBe(1);
+    });
+
+    it('should reject with AttemptTimeoutError when every attempt times out', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(2) }));
+
+      const promise = pool.execute(
+        async () => new Promise<Response>(() => {}),
+        { attemptTimeoutMs: 500 }
+      );
+      silenceRejection(promise);
+
+      await vi.advanceTimersByTimeAsync(1001);
+
+      await expect(promise).rejects.toThrow(AttemptTimeoutError);
+    });
+
+    it('should reject with DeadlineExceededError once the deadline passes', async () => {
+      let calls = 0;
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(3) }));
+
+      const promise = pool.execute(
+        async () => {
+          calls++;
+          return new Promise<Response>(() => {});
+        },
+        { attemptTimeoutMs: 1000, deadlineMs: 1500 }
+      );
+      silenceRejection(promise);
+
+      await vi.advanceTimersByTimeAsync(1501);
+
+      await expect(promise).rejects.toThrow(DeadlineExceededError);
+      expect(calls).toBe(2);
+    });
+
+    it('should wait for a key to become available when waitForAvailableKey is set', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{ id: 'key-1', value: 'test', quota: { type: 'unlimited' }, rps: 1 }],
+        waitForAvailableKey: true,
+      }));
+
+      const first = pool.execute(async () => new Response('first'));
+      const second = pool.execute(async () => new Response('second'));
+
+      await vi.advanceTimersByTimeAsync(0);
+      await first;
+      expect(pool.getQueueSize()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(second).resolves.toBeInstanceOf(Response);
+      expect(pool.getQueueSize()).toBe(0);
+    });
+
+    it('should fail immediately when no key is available by default', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{ id: 'key-1', value: 'test', quota: { type: 'unlimited' }, rps: 1 }],
+      }));
+
+      const first = pool.execute(async () => new Response('first'));
+      const second = pool.execute(async () => new Response('second'));
+      silenceRejection(second);
+
+      await vi.advanceTimersByTimeAsync(0);
+      await first;
+
+      await expect(second).rejects.toThrow(AllKeysExhaustedError);
+    });
+
+    it('should not exceed a key\'s maxConcurrent', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'value-1', quota: { type: 'unlimited' }, maxConcurrent: 1 },
+          { id: 'key-2', value: 'value-2', quota: { type: 'unlimited' }, maxConcurrent: 1 },
+        ],
+        maxConcurrency: 3,
+      }));
+
+      const slow = async () => {
+        await new Promise(r => setTimeout(r, 100));
+        return new Response('OK');
+      };
+      const first = pool.execute(slow);
+      const second = pool.execute(slow);
+      const third = pool.execute(slow);
+      silenceRejection(third);
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(pool.getKeyStats('key-1')!.inFlight).toBe(1);
+      expect(pool.getKeyStats('key-2')!.inFlight).toBe(1);
+
+      const error = await third.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(AllKeysExhaustedError);
+      expect((error as AllKeysExhaustedError).concurrencySaturatedKeys).toBe(2);
+      expect((error as AllKeysExhaustedError).retryAfterMs).toBe(100);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await Promise.all([first, second]);
+      expect(pool.getKeyStats('key-1')!.inFlight).toBe(0);
+    });
+
+    it('should wait for a concurrency slot when waitForAvailableKey is set', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{ id: 'key-1', value: 'test', quota: { type: 'unlimited' }, maxConcurrent: 1 }],
+        maxConcurrency: 2,
+        waitForAvailableKey: true,
+      }));
+
+      const slow = async () => {
+        await new Promise(r => setTimeout(r, 100));
+        return new Response('OK');
+      };
+      const first = pool.execute(slow);
+      const second = pool.execute(slow);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await first;
+      expect(pool.getKeyStats('key-1')!.inFlight).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await expect(second).resolves.toBeInstanceOf(Response);
+    });
+
+    it('should fail fast when every key has exhausted its quota', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{ id: 'key-1', value: 'test', quota: { type: 'total', limit: 1 } }],
+        waitForAvailableKey: true,
+      }));
+
+      const first = pool.execute(async () => new Response('first'));
+      await vi.advanceTimersByTimeAsync(0);
+      await first;
+
+      const second = pool.execute(async () => new Response('second'));
+      silenceRejection(second);
+      await vi.advanceTimersByTimeAsync(0);
+
+      await expect(second).rejects.toThrow(AllKeysExhaustedError);
+    });
+
+    it('should wake waiting requests when a circuit is closed manually', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(1),
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 20000 },
+        waitForAvailableKey: true,
+      }));
+      pool.openCircuit('key-1');
+
+      const promise = pool.execute(async () => new Response('OK'));
+      await vi.advanceTimersByTimeAsync(100);
+      expect(pool.getQueueSize()).toBe(1);
+
+      pool.closeCircuit('key-1');
+      await vi.advanceTimersByTimeAsync(0);
+
+      await expect(promise).resolves.toBeInstanceOf(Response);
+    });
+
+    it('should fail when a key cannot recover within maxWaitMs', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(1),
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 20000 },
+        waitForAvailableKey: true,
+      }));
+      pool.openCircuit('key-1');
+
+      const promise = pool.execute(async () => new Response('OK'), { maxWaitMs: 5000 });
+      silenceRejection(promise);
+      await vi.advanceTimersByTimeAsync(0);
+
+      await expect(promise).rejects.toThrow(AllKeysExhaustedError);
+    });
+
+    it('should back off between attempts when retryBackoff is set', async () => {
+      const callTimes: number[] = [];
+      const onRetry = vi.fn();
+
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(3),
+        isError: (res) => res.status >= 500,
+        retryBackoff: { baseMs: 100, multiplier: 2, jitter: 'none' },
+        onRetry,
+      }));
+
+      const promise = pool.execute(async () => {
+        callTimes.push(Date.now());
+        return new Response('Error', { status: callTimes.length < 3 ? 500 : 200 });
+      });
+
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(callTimes[1] - callTimes[0]).toBe(100);
+      expect(callTimes[2] - callTimes[1]).toBe(200);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenNthCalledWith(1, {
+        keyId: 'key-1',
+        attempt: 1,
+        reason: 'error',
+        delayMs: 100,
+      });
+      expect(onRetry).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        keyId: 'key-2',
+        attempt: 2,
+        delayMs: 200,
+      }));
+    });
+
+    it('should cap backoff by the remaining wait time', async () => {
+      const onRetry = vi.fn();
+
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(2),
+        isRateLimited: (res) => res.status === 429,
+        retryBackoff: { baseMs: 10000, jitter: 'none' },
+        onRetry,
+      }));
+
+      const promise = pool.execute(
+        async () => new Response('Too Many Requests', { status: 429 }),
+        { maxWaitMs: 2000 }
+      );
+      silenceRejection(promise);
+
+      await vi.runAllTimersAsync();
+
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({
+        reason: 'rate_limited',
+        delayMs: 2000,
+      }));
+    });
+
+    it('should hedge a slow attempt onto another key', async () => {
+      const signals: Record<string, AbortSignal> = {};
+
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(2) }));
+
+      const promise = pool.execute(async (keyValue, { signal }) => {
+        signals[keyValue] = signal;
+        if (keyValue === 'test-value-1') {
+          return new Promise<Response>(() => {}); // Slow key
+        }
+        return new Response('hedged');
+      }, { hedge: { afterMs: 200 } });
+
+      await vi.advanceTimersByTimeAsync(200);
+      const response = await promise;
+
+      expect(await response.text()).toBe('hedged');
+      expect(signals['test-value-1'].aborted).toBe(true);
+      expect(signals['test-value-2'].aborted).toBe(false);
+      // Both attempts were sent upstream, so both are charged
+      expect(pool.getKeyStats('key-1')!.quotaUsed).toBe(1);
+      expect(pool.getKeyStats('key-2')!.quotaUsed).toBe(1);
+    });
+
+    it('should not hedge when the first attempt is fast enough', async () => {
+      const usedKeys: string[] = [];
+
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(2) }));
+
+      const promise = pool.execute(async (keyValue) => {
+        usedKeys.push(keyValue);
+        await new Promise(r => setTimeout(r, 100));
+        return new Response('OK');
+      }, { hedge: { afterMs: 200 } });
+
+      await vi.runAllTimersAsync();
+      await promise;
+
+      expect(usedKeys).toEqual(['test-value-1']);
+      expect(pool.getKeyStats('key-2')!.quotaUsed).toBe(0);
+    });
+
+    it('should keep waiting for the other attempt when a hedge fails', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(2),
+        isError: (res) => res.status >= 500,
+      }));
+
+      const promise = pool.execute(async (keyValue) => {
+        if (keyValue === 'test-value-1') {
+          await new Promise(r => setTimeout(r, 500));
+          return new Response('primary');
+        }
+        return new Response('Error', { status: 500 });
+      }, { hedge: { afterMs: 100 } });
+
+      await vi.runAllTimersAsync();
+      const response = await promise;
+
+      expect(await response.text()).toBe('primary');
+      expect(pool.getKeyStats('key-2')!.consecutiveFailures).toBe(1);
+    });
+
+    it('should coalesce concurrent calls with the same dedupeKey', async () => {
+      let calls = 0;
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+
+      const fn = async () => {
+        calls++;
+        await new Promise(r => setTimeout(r, 100));
+        return new Response('OK');
+      };
+
+      const p1 = pool.execute(fn, { dedupeKey: 'embed:hello' });
+      const p2 = pool.execute(fn, { dedupeKey: 'embed:hello' });
+      const p3 = pool.execute(fn, { dedupeKey: 'embed:other' });
+
+      await vi.runAllTimersAsync();
+      const [r1, r2] = await Promise.all([p1, p2, p3]);
+
+      expect(calls).toBe(2);
+      expect(await r1.text()).toBe('OK');
+      expect(await r2.text()).toBe('OK');
+      expect(pool.getKeyStats('key-1')!.quotaUsed).toBe(2);
+    });
+
+    it('should share errors with all coalesced callers', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+
+      const fn = async (): Promise<Response> => {
+        throw new Error('upstream failed');
+      };
+
+      const p1 = pool.execute(fn, { dedupeKey: 'same' });
+      const p2 = pool.execute(fn, { dedupeKey: 'same' });
+      silenceRejection(p1);
+      silenceRejection(p2);
+
+      await vi.runAllTimersAsync();
+
+      await expect(p1).rejects.toThrow('upstream failed');
+      await expect(p2).rejects.toThrow('upstream failed');
+    });
+
+    it('should let a coalesced caller abort without affecting the others', async () => {
+      let calls = 0;
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+      const fn = async () => {
+        calls++;
+        await new Promise(r => setTimeout(r, 300));
+        return { ok: true } as unknown as Response;
+      };
+
+      const first = new AbortController();
+      const second = new AbortController();
+      const p1 = pool.execute(fn, { dedupeKey: 'same', signal: first.signal });
+      const p2 = pool.execute(fn, { dedupeKey: 'same', signal: second.signal });
+      silenceRejection(p1);
+      silenceRejection(p2);
+      await vi.advanceTimersByTimeAsync(10);
+
+      // The joiner's own signal rejects it right away
+      second.abort();
+      await vi.advanceTimersByTimeAsync(0);
+      await expect(p2).rejects.toBeInstanceOf(RequestAbortedError);
+
+      await vi.advanceTimersByTimeAsync(300);
+      await expect(p1).resolves.toEqual({ ok: true });
+      expect(calls).toBe(1);
+    });
+
+    it('should keep the shared call running when the first caller aborts', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+      const fn = async () => {
+        await new Promise(r => setTimeout(r, 300));
+        return { ok: true } as unknown as Response;
+      };
+
+      const first = new AbortController();
+      const p1 = pool.execute(fn, { dedupeKey: 'same', signal: first.signal });
+      const p2 = pool.execute(fn, { dedupeKey: 'same' });
+      silenceRejection(p1);
+      await vi.advanceTimersByTimeAsync(10);
+
+      first.abort();
+      await vi.advanceTimersByTimeAsync(300);
+
+      await expect(p1).rejects.toBeInstanceOf(RequestAbortedError);
+      await expect(p2).resolves.toEqual({ ok: true });
+    });
+
+    it('should abort the shared call once every coalesced caller aborts', async () => {
+      let aborted = false;
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+      const fn = async (_keyValue: string, context: ExecutionContext) => {
+        context.signal.addEventListener('abort', () => { aborted = true; });
+        await new Promise(r => setTimeout(r, 300));
+        return new Response('OK');
+      };
+
+      const first = new AbortController();
+      const second = new AbortController();
+      const p1 = pool.execute(fn, { dedupeKey: 'same', signal: first.signal });
+      const p2 = pool.execute(fn, { dedupeKey: 'same', signal: second.signal });
+      silenceRejection(p1);
+      silenceRejection(p2);
+      await vi.advanceTimersByTimeAsync(10);
+
+      first.abort();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(aborted).toBe(false);
+
+      second.abort();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(aborted).toBe(true);
+      await expect(p1).rejects.toBeInstanceOf(RequestAbortedError);
+      await expect(p2).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it('should execute again once the coalesced call has settled', async () => {
+      let calls = 0;
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+
+      const fn = async () => {
+        calls++;
+        return new Response('OK');
+      };
+
+      const p1 = pool.execute(fn, { dedupeKey: 'same' });
+      await vi.runAllTimersAsync();
+      await p1;
+
+      const p2 = pool.execute(fn, { dedupeKey: 'same' });
+      await vi.runAllTimersAsync();
+      await p2;
+
+      expect(calls).toBe(2);
+    });
+
+    it('should increment quota on success', async () => {
+      const pool = createKeyPool({ keys: createTestKeys(1) });
+
+      const promise = pool.execute(async () => new Response('OK'));
+      await vi.runAllTimersAsync();
+      await promise;
+
+      const stats = pool.getKeyStats('key-1');
+      expect(stats?.quotaUsed).toBe(1);
+    });
+
+    it('should call onWarning when threshold reached', async () => {
+      const onWarning = vi.fn();
+      const pool = createKeyPool({
+        keys: [{ id: 'key-1', value: 'test', quota: { type: 'monthly', limit: 10 }, rps: 100 }],
+        warningThreshold: 0.8,
+        onWarning,
+      });
+
+      // Make 8 requests to hit 80%
+      for (let i = 0; i < 8; i++) {
+        const promise = pool.execute(async () => new Response('OK'));
+        await vi.runAllTimersAsync();
+        await promise;
+      }
+
+      expect(onWarning).toHaveBeenCalledTimes(1);
+      expect(onWarning).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'key-1' }),
+        0.8
+      );
+    });
+  });
+
+  describe('strategy', () => {
+    async function runSequentially(pool: KeyPool<Response>, count: number): Promise<string[]> {
+      const usedKeys: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const promise = pool.execute(async (keyValue) => {
+          usedKeys.push(keyValue);
+          return new Response('OK');
+        });
+        await vi.advanceTimersByTimeAsync(10);
+        await promise;
+      }
+      return usedKeys;
+    }
+
+    it('should select keys with a built-in strategy by name', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(3),
+        strategy: 'least-recently-used',
+      }));
+
+      expect(await runSequentially(pool, 4)).toEqual([
+        'test-value-1', 'test-value-2', 'test-value-3', 'test-value-1',
+      ]);
+    });
+
+    it('should spread concurrent requests across keys by least recent selection', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(3),
+        strategy: 'least-recently-used',
+        maxConcurrency: 3,
+      }));
+
+      const usedKeys: string[] = [];
+      const promises = Array.from({ length: 3 }, () =>
+        pool.execute(async (keyValue) => {
+          usedKeys.push(keyValue);
+          await new Promise(resolve => setTimeout(resolve, 100));
+          return new Response('OK');
+        })
+      );
+      await vi.advanceTimersByTimeAsync(10);
+      expect(usedKeys.sort()).toEqual(['test-value-1', 'test-value-2', 'test-value-3']);
+
+      await vi.advanceTimersByTimeAsync(100);
+      await Promise.all(promises);
+    });
+
+    it('should select keys with a strategy instance', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(3),
+        strategy: { select: candidates => candidates[candidates.length - 1] },
+      }));
+
+      expect(await runSequentially(pool, 2)).toEqual(['test-value-3', 'test-value-3']);
+    });
+
+    it('should select keys with a registered strategy', async () => {
+      registerSelectionStrategy('pool-test-first', () => ({
+        select: candidates => candidates[0],
+      }));
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(3),
+        strategy: 'pool-test-first',
+      }));
+
+      expect(await runSequentially(pool, 2)).toEqual(['test-value-1', 'test-value-1']);
+    });
+  });
+
+  describe('getHealth', () => {
+    it('should return healthy status when all keys available', () => {
+      const pool = createKeyPool({ keys: createTestKeys(3) });
+      const health = pool.getHealth();
+
+      expect(health.status).toBe('healthy');
+      expect(health.availableKeys).toBe(3);
+      expect(health.totalKeys).toBe(3);
+    });
+
+    it('should return degraded status when some keys unavailable', async () => {
+      const pool = createKeyPool({
+        keys: createTestKeys(5), // 5 keys
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 5000 },
+      });
+
+      // Open circuit on 3 keys = 40% available (between 20-50%)
+      pool.openCircuit('key-1');
+      pool.openCircuit('key-2');
+      pool.openCircuit('key-3');
+
+      const health = pool.getHealth();
+
+      expect(health.status).toBe('degraded');
+      expect(health.availableKeys).toBe(2);
+    });
+
+    it('should return critical status when most keys unavailable', async () => {
+      const pool = createKeyPool({
+        keys: createTestKeys(10), // 10 keys
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 5000 },
+      });
+
+      // Open circuit on 9 keys = 10% available (< 20%)
+      pool.openCircuit('key-1');
+      pool.openCircuit('key-2');
+      pool.openCircuit('key-3');
+      pool.openCircuit('key-4');
+      pool.openCircuit('key-5');
+      pool.openCircuit('key-6');
+      pool.openCircuit('key-7');
+      pool.openCircuit('key-8');
+      pool.openCircuit('key-9');
+
+      const health = pool.getHealth();
+
+      expect(health.status).toBe('critical');
+      expect(health.availableKeys).toBe(1);
+    });
+
+    it('should return exhausted status when no keys available', async () => {
+      const pool = createKeyPool({
+        keys: createTestKeys(2),
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 5000 },
+      });
+
+      pool.openCircuit('key-1');
+      pool.openCircuit('key-2');
+
+      const health = pool.getHealth();
+
+      expect(health.status).toBe('exhausted');
+      expect(health.availableKeys).toBe(0);
+    });
+
+    it('should calculate effective RPS', () => {
+      const pool = createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'test', quota: { type: 'unlimited' }, rps: 10 },
+          { id: 'key-2', value: 'test', quota: { type: 'unlimited' }, rps: 20 },
+        ],
+      });
+
+      const health = pool.getHealth();
+      expect(health.effectiveRps).toBe(30);
+    });
+
+    it('should cap effective RPS at the global limits', () => {
+      const pool = createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'test', quota: { type: 'unlimited' }, rps: 10 },
+          { id: 'key-2', value: 'test', quota: { type: 'unlimited' }, rps: 20 },
+        ],
+        globalLimits: [
+          { per: 'minute', max: 900 },
+          { unit: 'tokens', per: 'minute', max: 100 },
+        ],
+      });
+
+      expect(pool.getHealth().effectiveRps).toBe(15);
+    });
+
+    it('should cap the effective RPS of a group at the group rps', () => {
+      const pool = createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'test', quota: { type: 'unlimited' }, rps: 10, group: 'org' },
+          { id: 'key-2', value: 'test', quota: { type: 'unlimited' }, rps: 20, group: 'org' },
+          { id: 'key-3', value: 'test', quota: { type: 'unlimited' }, rps: 5 },
+        ],
+        groups: { org: { rps: 12 } },
+      });
+
+      expect(pool.getHealth().effectiveRps).toBe(17);
+    });
+  });
+
+  describe('getKeyStats', () => {
+    it('should return null for unknown key', () => {
+      const pool = createKeyPool({ keys: createTestKeys() });
+      expect(pool.getKeyStats('unknown')).toBeNull();
+    });
+
+    it('should return stats for known key', () => {
+      const pool = createKeyPool({ keys: createTestKeys() });
+      const stats = pool.getKeyStats('key-1');
+
+      expect(stats).not.toBeNull();
+      expect(stats!.id).toBe('key-1');
+      expect(stats!.quotaUsed).toBe(0);
+      expect(stats!.quotaRemaining).toBe(100);
+      expect(stats!.isRateLimited).toBe(false);
+      expect(stats!.isCircuitOpen).toBe(false);
+      expect(stats!.limits).toEqual([]);
+    });
+
+    it('should report usage per limit window', async () => {
+      const pool = createKeyPool({
+        keys: [{
+          id: 'key-1',
+          value: 'test',
+          quota: { type: 'unlimited' },
+          rps: 10,
+          limits: [
+            { per: 'minute', max: 300 },
+            { per: 'day', max: 10000 },
+          ],
+        }],
+      });
+
+      const promise = pool.execute(async () => new Response('OK'));
+      await vi.runAllTimersAsync();
+      await promise;
+
+      const stats = pool.getKeyStats('key-1');
+      expect(stats!.limits).toEqual([
+        { unit: 'requests', per: 'minute', max: 300, used: 1, remaining: 299 },
+        { unit: 'requests', per: 'day', max: 10000, used: 1, remaining: 9999 },
+      ]);
+      await pool.shutdown();
+    });
+
+    it('should report the rate learned by adaptive keys', async () => {
+      const pool = createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'value-1', quota: { type: 'unlimited' }, rps: 10, adaptive: true },
+          { id: 'key-2', value: 'value-2', quota: { type: 'unlimited' }, rps: 10 },
+        ],
+        isRateLimited: (res) => res.status === 429,
+      });
+
+      const promise = pool.execute(async (key) =>
+        key === 'value-1' ? new Response('', { status: 429 }) : new Response('OK')
+      );
+      await vi.advanceTimersByTimeAsync(0);
+      await promise;
+
+      expect(pool.getKeyStats('key-1')!.learnedRps).toBe(5);
+      expect(pool.getKeyStats('key-2')!.learnedRps).toBeNull();
+      expect(pool.getHealth().effectiveRps).toBe(10);
+      await pool.shutdown();
+    });
+  });
+
+  describe('getAllKeyStats', () => {
+    it('should return stats for all keys', () => {
+      const pool = createKeyPool({ keys: createTestKeys(3) });
+      const stats = pool.getAllKeyStats();
+
+      expect(stats).toHaveLength(3);
+      expect(stats.map(s => s.id)).toEqual(['key-1', 'key-2', 'key-3']);
+    });
+  });
+
+  describe('executeWithMeta', () => {
+    it('should report the serving key, attempts and timings', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(3),
+        isRateLimited: (res) => res.status === 429,
+        isError: (res) => res.status >= 500,
+      }));
+
+      const promise = pool.executeWithMeta(async (keyValue) => {
+        await new Promise(r => setTimeout(r, 100));
+        if (keyValue === 'test-value-1') {
+          return new Response('', { status: 429 });
+        }
+        if (keyValue === 'test-value-2') {
+          return new Response('', { status: 503 });
+        }
+        return new Response('OK');
+      });
+
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(await result.response.text()).toBe('OK');
+      expect(result.keyId).toBe('key-3');
+      expect(result.attempts).toEqual([
+        { keyId: 'key-1', outcome: 'rate_limited', durationMs: 100 },
+        { keyId: 'key-2', outcome: 'error', durationMs: 100 },
+        { keyId: 'key-3', outcome: 'success', durationMs: 100 },
+      ]);
+      expect(result.queuedMs).toBe(0);
+      expect(result.totalMs).toBe(300);
+    });
+
+    it('should measure time spent waiting in the queue', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+
+      const first = pool.execute(async () => {
+        await new Promise(r => setTimeout(r, 500));
+        return new Response('OK');
+      });
+      const second = pool.executeWithMeta(async () => new Response('OK'));
+
+      await vi.runAllTimersAsync();
+      await first;
+      const result = await second;
+
+      expect(result.queuedMs).toBe(500);
+      expect(result.totalMs).toBe(500);
+    });
+
+    it('should record timed out attempts', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(2) }));
+
+      const promise = pool.executeWithMeta(async (keyValue) => {
+        if (keyValue === 'test-value-2') {
+          return new Response('OK');
+        }
+        return new Promise<Response>(() => {});
+      }, { attemptTimeoutMs: 1000 });
+
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result.keyId).toBe('key-2');
+      expect(result.attempts).toEqual([
+        { keyId: 'key-1', outcome: 'timeout', durationMs: 1000 },
+        { keyId: 'key-2', outcome: 'success', durationMs: 0 },
+      ]);
+    });
+
+    it('should record the aborted loser of a hedge', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(2) }));
+
+      const promise = pool.executeWithMeta(async (keyValue) => {
+        if (keyValue === 'test-value-1') {
+          return new Promise<Response>(() => {});
+        }
+        await new Promise(r => setTimeout(r, 100));
+        return new Response('OK');
+      }, { hedge: { afterMs: 300 } });
+
+      await vi.runAllTimersAsync();
+      const result = await promise;
+
+      expect(result.keyId).toBe('key-2');
+      expect(result.attempts).toEqual([
+        { keyId: 'key-2', outcome: 'success', durationMs: 100 },
+        { keyId: 'key-1', outcome: 'aborted', durationMs: 400 },
+      ]);
+    });
+  });
+
+  describe('streaming', () => {
+    function streamedResponse(error?: Error): Response {
+      let sent = false;
+      return new Response(new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (!sent) {
+            sent = true;
+            controller.enqueue(new TextEncoder().encode('data: chunk\n\n'));
+          } else if (error) {
+            controller.error(error);
+          } else {
+            controller.close();
+          }
+        },
+      }));
+    }
+
+    it('should charge quota only once the stream ends', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+
+      const promise = pool.execute(async () => streamedResponse(), { stream: true });
+      await vi.runAllTimersAsync();
+      const response = await promise;
+
+      expect(pool.getKeyStats('key-1')?.quotaUsed).toBe(0);
+
+      expect(await response.text()).toBe('data: chunk\n\n');
+      expect(pool.getKeyStats('key-1')?.quotaUsed).toBe(1);
+      expect(pool.getKeyStats('key-1')?.consecutiveFailures).toBe(0);
+    });
+
+    it('should record a failure when the stream errors part-way', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
+
+      const promise = pool.execute(
+        async () => streamedResponse(new Error('upstream 502')),
+        { stream: true }
+      );
+      await vi.runAllTimersAsync();
+      const response = await promise;
+
+      await expect(response.text()).rejects.toThrow('upstream 502');
+
+      const stats = pool.getKeyStats('key-1');
+      expect(stats?.consecutiveFailures).toBe(1);
+      expect(stats?.quotaUsed).toBe(1);
+    });
+
+    it('should hold a concurrency slot until the stream ends', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{ id: 'key-1', value: 'test', quota: { type: 'unlimited' }, maxConcurrent: 1 }],
+      }));
+
+      const promise = pool.execute(async () => streamedResponse(), { stream: true });
+      await vi.runAllTimersAsync();
+      const response = await promise;
+
+      expect(pool.getKeyStats('key-1')?.inFlight).toBe(1);
+      await response.text();
+      expect(pool.getKeyStats('key-1')?.inFlight).toBe(0);
+    });
+
+    it('should settle a stream whose request timed out while it started', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [{ id: 'key-1', value: 'test', quota: { type: 'monthly', limit: 100 }, maxConcurrent: 1 }],
+      }));
+
+      const promise = pool.execute(async () => {
+        await new Promise(r => setTimeout(r, 400));
+        return streamedResponse();
+      }, { stream: true, maxWaitMs: 150 });
+      silenceRejection(promise);
+
+      await vi.advanceTimersByTimeAsync(400);
+      await expect(promise).rejects.toBeInstanceOf(QueueTimeoutError);
 
-    it('should rotate keys on rate limit', async () => {
-      const usedKeys: string[] = [];
-      let callCount = 0;
+      const stats = pool.getKeyStats('key-1');
+      expect(stats?.inFlight).toBe(0);
+      expect(stats?.quotaUsed).toBe(1);
 
-      const pool = createKeyPool({
-        keys: createTestKeys(3),
-        isRateLimited: (res) => res.status === 429,
-        getRetryAfter: () => 30,
-      });
+      const next = pool.execute(async () => new Response('OK'));
+      await vi.advanceTimersByTimeAsync(0);
+      await expect(next).resolves.toBeInstanceOf(Response);
+    });
 
-      const promise = pool.execute(async (keyValue) => {
-        usedKeys.push(keyValue);
-        callCount++;
-        // First 2 calls return 429, third succeeds
-        return new Response('OK', { status: callCount < 3 ? 429 : 200 });
+    it('should use a custom trackStream hook', async () => {
+      const trackStream = vi.fn((response: Response, tracker: { fail(): void }) => {
+        tracker.fail();
+        return response;
       });
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1), trackStream }));
 
+      const promise = pool.execute(async () => new Response('OK'), { stream: true });
       await vi.runAllTimersAsync();
       await promise;
 
-      // Should have tried 3 different keys
-      expect(usedKeys.length).toBe(3);
-      expect(new Set(usedKeys).size).toBe(3); // All different keys
+      expect(trackStream).toHaveBeenCalledTimes(1);
+      expect(pool.getKeyStats('key-1')?.consecutiveFailures).toBe(1);
     });
 
-    it('should throw AllKeysExhaustedError when no keys available', async () => {
+    it('should release the slot and retry when the trackStream hook throws', async () => {
+      const trackStream = vi.fn((response: Response) => response)
+        .mockImplementationOnce(() => {
+          throw new Error('bad hook');
+        });
       const pool = trackPool(createKeyPool({
-        keys: createTestKeys(2),
-        isRateLimited: () => true, // All return 429
-        getRetryAfter: () => 30,
-        maxRetries: 2,
+        keys: [
+          { id: 'key-1', value: 'value-1', quota: { type: 'unlimited' }, maxConcurrent: 1 },
+          { id: 'key-2', value: 'value-2', quota: { type: 'unlimited' }, maxConcurrent: 1 },
+        ],
+        trackStream,
       }));
 
-      const promise = pool.execute(async () => {
-        return new Response('Too Many Requests', { status: 429 });
-      });
-      silenceRejection(promise);
+      const promise = pool.execute(async () => new Response('OK'), { stream: true });
+      await vi.runAllTimersAsync();
+      await expect(promise).resolves.toBeInstanceOf(Response);
+
+      expect(trackStream).toHaveBeenCalledTimes(2);
+      expect(pool.getKeyStats('key-1')?.inFlight).toBe(0);
+      expect(pool.getKeyStats('key-1')?.consecutiveFailures).toBe(1);
+    });
+
+    it('should not coalesce streamed requests', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1), maxConcurrency: 2 }));
+      const fn = vi.fn(async () => streamedResponse());
 
+      const first = pool.execute(fn, { stream: true, dedupeKey: 'same' });
+      const second = pool.execute(fn, { stream: true, dedupeKey: 'same' });
       await vi.runAllTimersAsync();
 
-      await expect(promise).rejects.toThrow(AllKeysExhaustedError);
+      expect(await first).not.toBe(await second);
+      expect(fn).toHaveBeenCalledTimes(2);
     });
+  });
 
-    it('should respect maxWaitMs option', async () => {
+  describe('executeBatch', () => {
+    it('should execute every item and report key usage', async () => {
       const pool = trackPool(createKeyPool({
-        keys: createTestKeys(),
-        maxQueueSize: 100, // Large queue to allow second request
+        keys: createTestKeys(2),
+        maxConcurrency: 2,
       }));
 
-      // First request blocks (silence it since it won't complete)
-      const blockingPromise = pool.execute(async () => {
-        await new Promise(() => {}); // Never resolves
-        return new Response('OK');
-      });
-      silenceRejection(blockingPromise);
-
-      // Second request should timeout while waiting
-      const promise = pool.execute(
-        async () => new Response('OK'),
-        { maxWaitMs: 100 }
+      const promise = pool.executeBatch(
+        ['a', 'b', 'c', 'd'],
+        async (item, keyValue) => new Response(`${item}:${keyValue}`),
+        { concurrency: 2 }
       );
-      silenceRejection(promise);
 
-      vi.advanceTimersByTime(101);
       await vi.runAllTimersAsync();
+      const result = await promise;
 
-      await expect(promise).rejects.toThrow(QueueTimeoutError);
+      expect(result.succeeded).toBe(4);
+      expect(result.results).toHaveLength(4);
+      expect(result.keyUsage).toEqual({ 'key-1': 2, 'key-2': 2 });
     });
 
-    it('should increment quota on success', async () => {
-      const pool = createKeyPool({ keys: createTestKeys(1) });
+    it('should attribute key usage by key ID when keys share a value', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: [
+          { id: 'key-1', value: 'shared', quota: { type: 'unlimited' } },
+          { id: 'key-2', value: 'shared', quota: { type: 'unlimited' } },
+        ],
+        maxConcurrency: 2,
+      }));
 
-      const promise = pool.execute(async () => new Response('OK'));
+      const promise = pool.executeBatch(['a', 'b'], async item => new Response(item));
       await vi.runAllTimersAsync();
-      await promise;
+      const result = await promise;
 
-      const stats = pool.getKeyStats('key-1');
-      expect(stats?.quotaUsed).toBe(1);
+      expect(result.keyUsage).toEqual({ 'key-1': 1, 'key-2': 1 });
     });
 
-    it('should call onWarning when threshold reached', async () => {
-      const onWarning = vi.fn();
-      const pool = createKeyPool({
-        keys: [{ id: 'key-1', value: 'test', quota: { type: 'monthly', limit: 10 }, rps: 100 }],
-        warningThreshold: 0.8,
-        onWarning,
-      });
-
-      // Make 8 requests to hit 80%
-      for (let i = 0; i < 8; i++) {
-        const promise = pool.execute(async () => new Response('OK'));
-        await vi.runAllTimersAsync();
-        await promise;
-      }
+    it('should not overflow the queue', async () => {
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(1),
+        maxQueueSize: 2,
+      }));
 
-      expect(onWarning).toHaveBeenCalledTimes(1);
-      expect(onWarning).toHaveBeenCalledWith(
-        expect.objectContaining({ id: 'key-1' }),
-        0.8
+      const promise = pool.executeBatch(
+        Array.from({ length: 10 }, (_, i) => i),
+        async () => {
+          await new Promise(r => setTimeout(r, 10));
+          return new Response('OK');
+        },
+        { concurrency: 2 }
       );
-    });
-  });
 
-  describe('getHealth', () => {
-    it('should return healthy status when all keys available', () => {
-      const pool = createKeyPool({ keys: createTestKeys(3) });
-      const health = pool.getHealth();
+      await vi.runAllTimersAsync();
+      const result = await promise;
 
-      expect(health.status).toBe('healthy');
-      expect(health.availableKeys).toBe(3);
-      expect(health.totalKeys).toBe(3);
+      expect(result.succeeded).toBe(10);
+      expect(result.failed).toBe(0);
     });
+  });
 
-    it('should return degraded status when some keys unavailable', async () => {
-      const pool = createKeyPool({
-        keys: createTestKeys(5), // 5 keys
-        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 5000 },
-      });
+  describe('cache', () => {
+    it('should answer repeated calls from the cache without using quota', async () => {
+      let calls = 0;
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(1),
+        cache: { ...responseSerializer },
+      }));
 
-      // Open circuit on 3 keys = 40% available (between 20-50%)
-      pool.openCircuit('key-1');
-      pool.openCircuit('key-2');
-      pool.openCircuit('key-3');
+      const fn = async () => {
+        calls++;
+        return new Response('cached body');
+      };
 
-      const health = pool.getHealth();
+      const first = pool.execute(fn, { cacheKey: 'lookup:1' });
+      await vi.runAllTimersAsync();
+      expect(await (await first).text()).toBe('cached body');
 
-      expect(health.status).toBe('degraded');
-      expect(health.availableKeys).toBe(2);
+      const second = pool.execute(fn, { cacheKey: 'lookup:1' });
+      await vi.runAllTimersAsync();
+      expect(await (await second).text()).toBe('cached body');
+
+      expect(calls).toBe(1);
+      expect(pool.getKeyStats('key-1')!.quotaUsed).toBe(1);
+      expect(pool.getCacheStats()).toEqual({ hits: 1, misses: 1, hitRate: 0.5 });
     });
 
-    it('should return critical status when most keys unavailable', async () => {
-      const pool = createKeyPool({
-        keys: createTestKeys(10), // 10 keys
-        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 5000 },
-      });
+    it('should cache Response bodies with the default serializer', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1), cache: {} }));
+      const fn = async () => new Response('cached body', { status: 201 });
 
-      // Open circuit on 9 keys = 10% available (< 20%)
-      pool.openCircuit('key-1');
-      pool.openCircuit('key-2');
-      pool.openCircuit('key-3');
-      pool.openCircuit('key-4');
-      pool.openCircuit('key-5');
-      pool.openCircuit('key-6');
-      pool.openCircuit('key-7');
-      pool.openCircuit('key-8');
-      pool.openCircuit('key-9');
+      const first = pool.execute(fn, { cacheKey: 'lookup:1' });
+      await vi.runAllTimersAsync();
+      expect(await (await first).text()).toBe('cached body');
 
-      const health = pool.getHealth();
+      const second = pool.execute(fn, { cacheKey: 'lookup:1' });
+      await vi.runAllTimersAsync();
+      const cached = await second;
 
-      expect(health.status).toBe('critical');
-      expect(health.availableKeys).toBe(1);
+      expect(cached).toBeInstanceOf(Response);
+      expect(cached.status).toBe(201);
+      expect(await cached.text()).toBe('cached body');
+      expect(pool.getCacheStats()!.hits).toBe(1);
     });
 
-    it('should return exhausted status when no keys available', async () => {
-      const pool = createKeyPool({
-        keys: createTestKeys(2),
-        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 5000 },
-      });
-
-      pool.openCircuit('key-1');
-      pool.openCircuit('key-2');
+    it('should execute again after cacheTtlMs expires', async () => {
+      let calls = 0;
+      const pool = trackPool(createKeyPool({
+        keys: createTestKeys(1),
+        cache: { ...responseSerializer },
+      }));
 
-      const health = pool.getHealth();
+      const fn = async () => {
+        calls++;
+        return new Response('OK');
+      };
 
-      expect(health.status).toBe('exhausted');
-      expect(health.availableKeys).toBe(0);
-    });
+      const first = pool.execute(fn, { cacheKey: 'key', cacheTtlMs: 1000 });
+      await vi.runAllTimersAsync();
+      await first;
 
-    it('should calculate effective RPS', () => {
-      const pool = createKeyPool({
-        keys: [
-          { id: 'key-1', value: 'test', quota: { type: 'unlimited' }, rps: 10 },
-          { id: 'key-2', value: 'test', quota: { type: 'unlimited' }, rps: 20 },
-        ],
-      });
+      vi.advanceTimersByTime(1001);
 
-      const health = pool.getHealth();
-      expect(health.effectiveRps).toBe(30);
-    });
-  });
+      const second = pool.execute(fn, { cacheKey: 'key', cacheTtlMs: 1000 });
+      await vi.runAllTimersAsync();
+      await second;
 
-  describe('getKeyStats', () => {
-    it('should return null for unknown key', () => {
-      const pool = createKeyPool({ keys: createTestKeys() });
-      expect(pool.getKeyStats('unknown')).toBeNull();
+      expect(calls).toBe(2);
     });
 
-    it('should return stats for known key', () => {
-      const pool = createKeyPool({ keys: createTestKeys() });
-      const stats = pool.getKeyStats('key-1');
-
-      expect(stats).not.toBeNull();
-      expect(stats!.id).toBe('key-1');
-      expect(stats!.quotaUsed).toBe(0);
-      expect(stats!.quotaRemaining).toBe(100);
-      expect(stats!.isRateLimited).toBe(false);
-      expect(stats!.isCircuitOpen).toBe(false);
-    });
-  });
+    it('should ignore cacheKey when no cache is configured', async () => {
+      let calls = 0;
+      const pool = trackPool(createKeyPool({ keys: createTestKeys(1) }));
 
-  describe('getAllKeyStats', () => {
-    it('should return stats for all keys', () => {
-      const pool = createKeyPool({ keys: createTestKeys(3) });
-      const stats = pool.getAllKeyStats();
+      for (let i = 0; i < 2; i++) {
+        const promise = pool.execute(async () => {
+          calls++;
+          return new Response('OK');
+        }, { cacheKey: 'key' });
+        await vi.runAllTimersAsync();
+        await promise;
+      }
 
-      expect(stats).toHaveLength(3);
-      expect(stats.map(s => s.id)).toEqual(['key-1', 'key-2', 'key-3']);
+      expect(calls).toBe(2);
+      expect(pool.getCacheStats()).toBeNull();
     });
   });
 
@@ -309,6 +1762,28 @@ describe('createKeyPool', () => {
       const pool = createKeyPool({ keys: createTestKeys() });
       expect(pool.getQueueSize()).toBe(0);
     });
+
+    it('should report size per priority', async () => {
+      const pool = trackPool(createKeyPool({ keys: createTestKeys() }));
+
+      const blocking = pool.execute(async () => {
+        await new Promise(() => {});
+        return new Response('OK');
+      });
+      const background = pool.execute(
+        async () => new Response('OK'),
+        { priority: 'background' }
+      );
+      silenceRejection(blocking);
+      silenceRejection(background);
+
+      await new Promise(resolve => process.nextTick(resolve));
+
+      expect(pool.getQueueSize()).toBe(2);
+      expect(pool.getQueueSize('normal')).toBe(1);
+      expect(pool.getQueueSize('background')).toBe(1);
+      expect(pool.getQueueSize('critical')).toBe(0);
+    });
   });
 
   describe('addKey', () => {
@@ -475,6 +1950,32 @@ describe('Pool Integration', () => {
     expect(requestsPerKey['val-2']).toBe(5);
   });
 
+  it('should execute requests in parallel up to maxConcurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const pool = createKeyPool({
+      keys: createTestKeys(3),
+      maxConcurrency: 3,
+    });
+    integrationPools.push(pool);
+
+    const promises = Array.from({ length: 6 }, () =>
+      pool.execute(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(r => setTimeout(r, 50));
+        active--;
+        return new Response('OK');
+      })
+    );
+
+    await vi.runAllTimersAsync();
+    await Promise.all(promises);
+
+    expect(maxActive).toBe(3);
+  });
+
   it('should recover after circuit breaker timeout', async () => {
     const pool = createKeyPool({
       keys: createTestKeys(1),
@@ -529,6 +2030,66 @@ describe('Pool Integration', () => {
     expect(stats!.quotaUsed).toBe(200);
   });
 
+  it('should charge the actual usage reported by the response', async () => {
+    const store = new Map<string, string>();
+    const storage: StorageAdapter = {
+      async get(key: string) {
+        return store.get(key) ?? null;
+      },
+      async set(key: string, value: string) {
+        store.set(key, value);
+      },
+      async delete(key: string) {
+        store.delete(key);
+      },
+    };
+
+    const pool = createKeyPool({
+      keys: [{ id: 'key-1', value: 'test', quota: { type: 'monthly', limit: 100000 } }],
+      storage,
+      getUsage: (res) => Number(res.headers.get('x-usage-tokens')),
+    });
+    integrationPools.push(pool);
+
+    const promise = pool.execute(
+      async () => new Response('OK', { headers: { 'x-usage-tokens': '1234' } }),
+      { cost: 500 }
+    );
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(pool.getKeyStats('key-1')!.quotaUsed).toBe(1234);
+    expect(JSON.parse(store.get('quota:key-1')!)).toMatchObject({ quotaUsed: 1234 });
+  });
+
+  it('should charge the tokens of a usage report', async () => {
+    const pool = createKeyPool({
+      keys: [{ id: 'key-1', value: 'test', quota: { type: 'monthly', limit: 100000 } }],
+      getUsage: () => ({ requests: 1, tokens: 750 }),
+    });
+    integrationPools.push(pool);
+
+    const promise = pool.execute(async () => new Response('OK'));
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(pool.getKeyStats('key-1')!.quotaUsed).toBe(750);
+  });
+
+  it('should charge the cost when no usage is reported', async () => {
+    const pool = createKeyPool({
+      keys: [{ id: 'key-1', value: 'test', quota: { type: 'monthly', limit: 1000 } }],
+      getUsage: () => null,
+    });
+    integrationPools.push(pool);
+
+    const promise = pool.execute(async () => new Response('OK'), { cost: 3 });
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(pool.getKeyStats('key-1')!.quotaUsed).toBe(3);
+  });
+
   it('should load persisted state before executing requests', async () => {
     // Create a storage adapter with pre-existing quota data
     const store = new Map<string, string>();
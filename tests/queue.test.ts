@@ -1,6 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { RequestQueue } from '../app/queue.js';
-import { QueueTimeoutError, QueueFullError } from '../app/errors.js';
+import {
+  QueueTimeoutError,
+  QueueFullError,
+  RequestAbortedError,
+  DeadlineExceededError,
+  InvalidExecuteOptionsError,
+} from '../app/errors.js';
 
 // Helper to silence unhandled promise rejections in tests
 function silenceRejection(promise: Promise<unknown>): void {
@@ -66,13 +72,38 @@ describe('RequestQueue', () => {
       fullQueue.clear();
     });
 
+    it('should reject invalid cost and estimatedTokens', async () => {
+      queue.setProcessCallback(async (request) => request.resolve('result'));
+
+      for (const cost of [-50, 0, NaN, Infinity]) {
+        await expect(queue.enqueue(async () => 'test', { cost }))
+          .rejects.toBeInstanceOf(InvalidExecuteOptionsError);
+      }
+      for (const estimatedTokens of [-1, NaN]) {
+        await expect(queue.enqueue(async () => 'test', { estimatedTokens }))
+          .rejects.toBeInstanceOf(InvalidExecuteOptionsError);
+      }
+      expect(queue.size).toBe(0);
+    });
+
+    it('should reject an unknown priority', async () => {
+      queue.setProcessCallback(async (request) => request.resolve('result'));
+
+      for (const priority of ['high', 'toString']) {
+        await expect(queue.enqueue(async () => 'test', { priority: priority as 'normal' }))
+          .rejects.toBeInstanceOf(InvalidExecuteOptionsError);
+      }
+      expect(queue.size).toBe(0);
+      expect(queue.getSizeByPriority()).toEqual({ critical: 0, normal: 0, background: 0 });
+    });
+
     it('should use custom maxWaitMs', async () => {
       let blockResolve: (() => void) | null = null;
       queue.setProcessCallback(async () => {
         await new Promise<void>(r => { blockResolve = r; });
       });
 
-      const promise = queue.enqueue(async () => 'test', 1000);
+      const promise = queue.enqueue(async () => 'test', { maxWaitMs: 1000 });
       silenceRejection(promise);
       
       vi.advanceTimersByTime(1001);
@@ -146,7 +177,7 @@ describe('RequestQueue', () => {
         await new Promise<void>(r => { blockResolve = r; });
       });
 
-      const promise = queue.enqueue(async () => 'test', 2000);
+      const promise = queue.enqueue(async () => 'test', { maxWaitMs: 2000 });
       silenceRejection(promise);
       
       vi.advanceTimersByTime(2001);
@@ -163,8 +194,8 @@ describe('RequestQueue', () => {
       });
 
       // Add multiple items
-      const p1 = queue.enqueue(async () => 'test1', 10000);
-      const promise = queue.enqueue(async () => 'test2', 1000);
+      const p1 = queue.enqueue(async () => 'test1', { maxWaitMs: 10000 });
+      const promise = queue.enqueue(async () => 'test2', { maxWaitMs: 1000 });
       silenceRejection(p1);
       silenceRejection(promise);
       
@@ -183,6 +214,23 @@ describe('RequestQueue', () => {
       }
       blockResolve?.();
     });
+
+    it('should reject pending requests with DeadlineExceededError', async () => {
+      let blockResolve: (() => void) | null = null;
+      queue.setProcessCallback(async () => {
+        await new Promise<void>(r => { blockResolve = r; });
+      });
+
+      const p1 = queue.enqueue(async () => 'test1');
+      const promise = queue.enqueue(async () => 'test2', { deadlineMs: 1000 });
+      silenceRejection(p1);
+      silenceRejection(promise);
+
+      vi.advanceTimersByTime(1001);
+
+      await expect(promise).rejects.toThrow(DeadlineExceededError);
+      blockResolve?.();
+    });
   });
 
   describe('clear', () => {
@@ -274,4 +322,296 @@ describe('RequestQueue', () => {
       expect(processed).toEqual(['first', 'second']);
     });
   });
+  describe('concurrency', () => {
+    it('should process one request at a time by default', async () => {
+      let active = 0;
+      let maxActive = 0;
+
+      queue.setProcessCallback(async (request) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(r => setTimeout(r, 10));
+        active--;
+        request.resolve(await request.execute('key'));
+      });
+
+      const promises = Array.from({ length: 3 }, (_, i) =>
+        queue.enqueue(async () => `req-${i}`)
+      );
+
+      await vi.runAllTimersAsync();
+      await Promise.all(promises);
+
+      expect(maxActive).toBe(1);
+    });
+
+    it('should dispatch up to maxConcurrency requests in parallel', async () => {
+      const concurrentQueue = new RequestQueue<string>({
+        maxSize: 10,
+        defaultMaxWaitMs: 5000,
+        maxConcurrency: 3,
+      });
+      let active = 0;
+      let maxActive = 0;
+
+      concurrentQueue.setProcessCallback(async (request) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(r => setTimeout(r, 10));
+        active--;
+        request.resolve(await request.execute('key'));
+      });
+
+      const promises = Array.from({ length: 5 }, (_, i) =>
+        concurrentQueue.enqueue(async () => `req-${i}`)
+      );
+      expect(concurrentQueue.activeRequests).toBe(3);
+      expect(concurrentQueue.size).toBe(5);
+
+      await vi.runAllTimersAsync();
+      const results = await Promise.all(promises);
+
+      expect(maxActive).toBe(3);
+      expect(results).toEqual(['req-0', 'req-1', 'req-2', 'req-3', 'req-4']);
+      expect(concurrentQueue.size).toBe(0);
+    });
+
+    it('should admit requests in FIFO order', async () => {
+      const concurrentQueue = new RequestQueue<string>({
+        maxSize: 10,
+        defaultMaxWaitMs: 5000,
+        maxConcurrency: 2,
+      });
+      const started: string[] = [];
+
+      concurrentQueue.setProcessCallback(async (request) => {
+        const result = await request.execute('key');
+        started.push(result);
+        await new Promise(r => setTimeout(r, 10));
+        request.resolve(result);
+      });
+
+      const promises = ['a', 'b', 'c', 'd'].map(id =>
+        concurrentQueue.enqueue(async () => id)
+      );
+
+      await vi.runAllTimersAsync();
+      await Promise.all(promises);
+
+      expect(started).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should time out pending requests while slots are busy', async () => {
+      const concurrentQueue = new RequestQueue<string>({
+        maxSize: 10,
+        defaultMaxWaitMs: 5000,
+        maxConcurrency: 2,
+      });
+      let blockResolve: (() => void) | null = null;
+      concurrentQueue.setProcessCallback(async () => {
+        await new Promise<void>(r => { blockResolve = r; });
+      });
+
+      const p1 = concurrentQueue.enqueue(async () => 'test1');
+      const p2 = concurrentQueue.enqueue(async () => 'test2');
+      const promise = concurrentQueue.enqueue(async () => 'test3', { maxWaitMs: 1000 });
+      silenceRejection(p1);
+      silenceRejection(p2);
+      silenceRejection(promise);
+
+      vi.advanceTimersByTime(1001);
+      await vi.runAllTimersAsync();
+
+      await expect(promise).rejects.toThrow(QueueTimeoutError);
+      concurrentQueue.clear();
+      blockResolve?.();
+    });
+  });
+  describe('priority', () => {
+    it('should dispatch higher priority requests first', async () => {
+      const order: string[] = [];
+      let releaseFirst: (() => void) | null = null;
+      const firstBlock = new Promise<void>(r => { releaseFirst = r; });
+
+      queue.setProcessCallback(async (request) => {
+        const result = await request.execute('key');
+        if (result === 'blocker') {
+          await firstBlock;
+        }
+        order.push(result);
+        request.resolve(result);
+      });
+
+      const promises = [
+        queue.enqueue(async () => 'blocker'),
+        queue.enqueue(async () => 'background', { priority: 'background' }),
+        queue.enqueue(async () => 'normal-1'),
+        queue.enqueue(async () => 'critical', { priority: 'critical' }),
+        queue.enqueue(async () => 'normal-2', { priority: 'normal' }),
+      ];
+
+      releaseFirst!();
+      await vi.runAllTimersAsync();
+      await Promise.all(promises);
+
+      expect(order).toEqual(['blocker', 'critical', 'normal-1', 'normal-2', 'background']);
+    });
+
+    it('should promote waiting requests with aging', async () => {
+      const agingQueue = new RequestQueue<string>({
+        maxSize: 10,
+        defaultMaxWaitMs: 60000,
+        priorityAgingMs: 1000,
+      });
+      const order: string[] = [];
+      let releaseFirst: (() => void) | null = null;
+      const firstBlock = new Promise<void>(r => { releaseFirst = r; });
+
+      agingQueue.setProcessCallback(async (request) => {
+        const result = await request.execute('key');
+        if (result === 'blocker') {
+          await firstBlock;
+        }
+        order.push(result);
+        request.resolve(result);
+      });
+
+      const promises = [
+        agingQueue.enqueue(async () => 'blocker'),
+        agingQueue.enqueue(async () => 'background', { priority: 'background' }),
+      ];
+
+      // After 2s the background request has aged to the critical level
+      vi.advanceTimersByTime(2000);
+      promises.push(agingQueue.enqueue(async () => 'critical', { priority: 'critical' }));
+
+      releaseFirst!();
+      await vi.runAllTimersAsync();
+      await Promise.all(promises);
+
+      expect(order).toEqual(['blocker', 'background', 'critical']);
+    });
+
+    it('should report size per priority', () => {
+      queue.setProcessCallback(async () => {
+        await new Promise(() => {});
+      });
+
+      const promises = [
+        queue.enqueue(async () => 'a'),
+        queue.enqueue(async () => 'b', { priority: 'critical' }),
+        queue.enqueue(async () => 'c', { priority: 'background' }),
+        queue.enqueue(async () => 'd', { priority: 'background' }),
+      ];
+      promises.forEach(silenceRejection);
+
+      expect(queue.getSizeByPriority()).toEqual({
+        critical: 1,
+        normal: 1,
+        background: 2,
+      });
+    });
+  });
+  describe('abort', () => {
+    it('should reject immediately if signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(queue.enqueue(async () => 'test', { signal: controller.signal }))
+        .rejects.toThrow(RequestAbortedError);
+      expect(queue.size).toBe(0);
+    });
+
+    it('should remove a pending request when aborted', async () => {
+      let blockResolve: (() => void) | null = null;
+      queue.setProcessCallback(async () => {
+        await new Promise<void>(r => { blockResolve = r; });
+      });
+
+      const controller = new AbortController();
+      const p1 = queue.enqueue(async () => 'test1');
+      const promise = queue.enqueue(async () => 'test2', { signal: controller.signal });
+      silenceRejection(p1);
+      expect(queue.size).toBe(2);
+
+      controller.abort('no longer needed');
+
+      await expect(promise).rejects.toThrow(RequestAbortedError);
+      expect(queue.size).toBe(1);
+      blockResolve?.();
+    });
+
+    it('should reject an in-flight request when aborted', async () => {
+      queue.setProcessCallback(async () => {
+        await new Promise(() => {});
+      });
+
+      const controller = new AbortController();
+      const promise = queue.enqueue(async () => 'test', { signal: controller.signal });
+
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(RequestAbortedError);
+      expect(queue.size).toBe(0);
+    });
+  });
+  describe('park', () => {
+    it('should hold a parked request until its wait time passes', async () => {
+      let attempts = 0;
+
+      queue.setProcessCallback(async (request) => {
+        attempts++;
+        if (attempts === 1) {
+          queue.park(request, 1000);
+          return;
+        }
+        request.resolve(await request.execute('key', { signal: new AbortController().signal }));
+      });
+
+      const promise = queue.enqueue(async () => 'done');
+      expect(attempts).toBe(1);
+      expect(queue.size).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(attempts).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toBe('done');
+      expect(attempts).toBe(2);
+    });
+
+    it('should wake parked requests on triggerProcess', async () => {
+      let attempts = 0;
+
+      queue.setProcessCallback(async (request) => {
+        attempts++;
+        if (attempts === 1) {
+          queue.park(request, 60000);
+          return;
+        }
+        request.resolve('woken');
+      });
+
+      const promise = queue.enqueue(async () => 'unused');
+      await vi.advanceTimersByTimeAsync(0);
+
+      queue.triggerProcess();
+
+      await expect(promise).resolves.toBe('woken');
+    });
+
+    it('should time out parked requests', async () => {
+      queue.setProcessCallback(async (request) => {
+        queue.park(request, 60000);
+      });
+
+      const promise = queue.enqueue(async () => 'test', { maxWaitMs: 1000 });
+      silenceRejection(promise);
+
+      await vi.advanceTimersByTimeAsync(1100);
+
+      await expect(promise).rejects.toThrow(QueueTimeoutError);
+      expect(queue.size).toBe(0);
+    });
+  });
 });
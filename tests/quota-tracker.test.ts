@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { QuotaTracker } from '../app/quota-tracker.js';
 import { MemoryStorageAdapter } from '../app/storage/memory.js';
-import type { KeyState, KeyConfig } from '../app/types.js';
+import type { KeyState, KeyConfig, GroupState } from '../app/types.js';
 
 function createKeyState(overrides: Partial<KeyConfig> = {}): KeyState {
   const config: KeyConfig = {
@@ -67,6 +67,13 @@ describe('QuotaTracker', () => {
       state.quotaUsed = 1001;
       expect(quotaTracker.hasQuota(state)).toBe(false);
     });
+
+    it('should require enough remaining quota for the cost', () => {
+      const state = createKeyState({ quota: { type: 'monthly', limit: 1000 } });
+      state.quotaUsed = 995;
+      expect(quotaTracker.hasQuota(state, 5)).toBe(true);
+      expect(quotaTracker.hasQuota(state, 6)).toBe(false);
+    });
   });
 
   describe('getRemaining', () => {
@@ -294,4 +301,73 @@ describe('QuotaTracker', () => {
       expect(state.quotaUsed).toBe(250);
     });
   });
+
+  describe('groups', () => {
+    function createGroupState(overrides: Partial<GroupState> = {}): GroupState {
+      return {
+        id: 'org',
+        config: { quota: { type: 'monthly', limit: 100 } },
+        quotaUsed: 0,
+        periodStart: new Date(),
+        limits: [],
+        limitBuckets: [],
+        ...overrides,
+      };
+    }
+
+    let group: GroupState;
+
+    beforeEach(() => {
+      group = createGroupState();
+      quotaTracker = new QuotaTracker({
+        storage,
+        warningThreshold: 0.8,
+        groups: new Map([['org', group]]),
+      });
+    });
+
+    it('should charge usage to the group as well', () => {
+      const first = createKeyState({ id: 'key-1', group: 'org' });
+      const second = createKeyState({ id: 'key-2', group: 'org' });
+
+      quotaTracker.increment(first, 30);
+      quotaTracker.increment(second, 20);
+
+      expect(first.quotaUsed).toBe(30);
+      expect(second.quotaUsed).toBe(20);
+      expect(group.quotaUsed).toBe(50);
+      expect(quotaTracker.getGroupRemaining(group)).toBe(50);
+    });
+
+    it('should have no quota once the group is exhausted', () => {
+      const first = createKeyState({ id: 'key-1', group: 'org' });
+      const second = createKeyState({ id: 'key-2', group: 'org' });
+
+      quotaTracker.increment(first, 100);
+
+      expect(quotaTracker.hasQuota(second)).toBe(false);
+      expect(quotaTracker.hasQuota(createKeyState({ id: 'key-3' }))).toBe(true);
+    });
+
+    it('should reset the group in a new period', () => {
+      group.quotaUsed = 100;
+      group.periodStart = new Date(Date.UTC(2024, 0, 15));
+      vi.setSystemTime(new Date(Date.UTC(2024, 1, 1)));
+
+      expect(quotaTracker.hasGroupQuota(group)).toBe(true);
+      expect(group.quotaUsed).toBe(0);
+    });
+
+    it('should persist and load group state under a group-scoped key', async () => {
+      quotaTracker.increment(createKeyState({ id: 'org', group: 'org' }), 40);
+      await vi.runAllTimersAsync();
+
+      expect(JSON.parse((await storage.get('quota:group:org'))!).quotaUsed).toBe(40);
+      expect(JSON.parse((await storage.get('quota:org'))!).quotaUsed).toBe(40);
+
+      const restored = createGroupState();
+      await quotaTracker.loadGroupState(restored);
+      expect(restored.quotaUsed).toBe(40);
+    });
+  });
 });
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseRateLimitHeaders } from '../app/rate-limit-headers.js';
+
+describe('parseRateLimitHeaders', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return null without rate limit headers', () => {
+    expect(parseRateLimitHeaders(new Headers({ 'content-type': 'text/plain' }))).toBeNull();
+  });
+
+  it('should parse x-ratelimit-*-requests headers with duration resets', () => {
+    const parse = (reset: string) => parseRateLimitHeaders(new Headers({
+      'x-ratelimit-remaining-requests': '59',
+      'x-ratelimit-reset-requests': reset,
+    }));
+
+    expect(parse('1s')).toEqual({ remaining: 59, resetAfter: 1 });
+    expect(parse('6m0s')).toEqual({ remaining: 59, resetAfter: 360 });
+    expect(parse('1h2m3.5s')).toEqual({ remaining: 59, resetAfter: 3723.5 });
+    expect(parse('20ms')).toEqual({ remaining: 59, resetAfter: 0.02 });
+    expect(parse('soon')).toBeNull();
+  });
+
+  it('should parse the IETF RateLimit header', () => {
+    expect(parseRateLimitHeaders(new Headers({
+      RateLimit: 'limit=100, remaining=50, reset=30',
+    }))).toEqual({ remaining: 50, resetAfter: 30 });
+
+    expect(parseRateLimitHeaders(new Headers({
+      RateLimit: '"default";r=0;t=12',
+    }))).toEqual({ remaining: 0, resetAfter: 12 });
+  });
+
+  it('should fall back to the RateLimit-Policy window', () => {
+    expect(parseRateLimitHeaders(new Headers({
+      RateLimit: '"default";r=5',
+      'RateLimit-Policy': '"default";q=100;w=60',
+    }))).toEqual({ remaining: 5, resetAfter: 60 });
+  });
+
+  it('should parse separate RateLimit-Remaining and RateLimit-Reset headers', () => {
+    expect(parseRateLimitHeaders(new Headers({
+      'RateLimit-Remaining': '3',
+      'RateLimit-Reset': '10',
+    }))).toEqual({ remaining: 3, resetAfter: 10 });
+  });
+
+  it('should treat large x-ratelimit-reset values as Unix timestamps', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(Date.UTC(2024, 0, 1)));
+    const now = Date.now() / 1000;
+
+    expect(parseRateLimitHeaders(new Headers({
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(now + 45),
+    }))).toEqual({ remaining: 0, resetAfter: 45 });
+  });
+
+  it('should ignore incomplete windows', () => {
+    expect(parseRateLimitHeaders(new Headers({ 'x-ratelimit-remaining': '10' }))).toBeNull();
+  });
+});
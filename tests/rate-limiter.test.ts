@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { RateLimiter } from '../app/rate-limiter.js';
-import type { KeyState, KeyConfig } from '../app/types.js';
+import { MemoryStorageAdapter } from '../app/storage/memory.js';
+import type { KeyState, KeyConfig, GroupState, RateLimitConfig } from '../app/types.js';
 
 function createKeyState(overrides: Partial<KeyConfig> = {}): KeyState {
   const config: KeyConfig = {
@@ -20,8 +21,17 @@ function createKeyState(overrides: Partial<KeyConfig> = {}): KeyState {
     circuitOpenUntil: null,
     consecutiveFailures: 0,
     lastUsed: null,
-    tokens: config.rps ?? 0,
+    lastSelected: 0,
+    tokens: config.burst ?? config.rps ?? 0,
     lastTokenRefill: new Date(),
+    learnedRps: config.adaptive ? config.rps ?? null : null,
+    providerWindow: null,
+    inFlight: 0,
+    requestLog: [],
+    limitBuckets: (config.limits ?? []).map(limit => ({
+      tokens: limit.max,
+      lastRefill: new Date(),
+    })),
   };
 }
 
@@ -96,6 +106,35 @@ describe('RateLimiter', () => {
       
       expect(rateLimiter.tryConsume(state)).toBe(true);
     });
+
+    it('should consume one token per unit of cost', () => {
+      const state = createKeyState({ rps: 10 });
+      state.tokens = 10;
+
+      expect(rateLimiter.tryConsume(state, 4)).toBe(true);
+      expect(state.tokens).toBe(6);
+    });
+
+    it('should return false when fewer tokens than the cost are available', () => {
+      const state = createKeyState({ rps: 10 });
+      state.tokens = 3;
+      state.lastTokenRefill = new Date();
+
+      expect(rateLimiter.tryConsume(state, 5)).toBe(false);
+      expect(state.tokens).toBe(3);
+    });
+
+    it('should admit a cost larger than the bucket once it is full', () => {
+      const state = createKeyState({ rps: 10 });
+      state.tokens = 10;
+
+      expect(rateLimiter.tryConsume(state, 50)).toBe(true);
+      expect(state.tokens).toBe(-40);
+      expect(rateLimiter.hasCapacity(state)).toBe(false);
+
+      // The debt is repaid before the next request: 41 tokens at 10 RPS
+      expect(rateLimiter.getTimeUntilAvailable(state)).toBe(4100);
+    });
   });
 
   describe('getAvailableTokens', () => {
@@ -162,6 +201,15 @@ describe('RateLimiter', () => {
       // At 10 RPS, need 100ms for 1 token
       expect(rateLimiter.getTimeUntilAvailable(state)).toBe(100);
     });
+
+    it('should return time until enough tokens for the cost', () => {
+      const state = createKeyState({ rps: 10 });
+      state.tokens = 2;
+      state.lastTokenRefill = new Date();
+
+      // At 10 RPS, need 300ms for 3 more tokens
+      expect(rateLimiter.getTimeUntilAvailable(state, 5)).toBe(300);
+    });
   });
 
   describe('reset', () => {
@@ -184,4 +232,339 @@ describe('RateLimiter', () => {
       expect(state.lastTokenRefill.getTime()).toBeGreaterThan(oldRefill.getTime());
     });
   });
+
+  describe('limits', () => {
+    it('should enforce every limit alongside rps', () => {
+      const state = createKeyState({
+        rps: 10,
+        limits: [{ unit: 'requests', per: 'minute', max: 3 }],
+      });
+
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+
+      // rps still has tokens, but the per-minute limit is used up
+      expect(rateLimiter.hasCapacity(state)).toBe(false);
+      expect(rateLimiter.tryConsume(state)).toBe(false);
+      expect(state.tokens).toBe(7);
+    });
+
+    it('should consume estimated tokens from tokens limits', () => {
+      const state = createKeyState({
+        rps: undefined,
+        limits: [
+          { unit: 'requests', per: 'minute', max: 500 },
+          { unit: 'tokens', per: 'minute', max: 1000 },
+        ],
+      });
+
+      expect(rateLimiter.tryConsume(state, 1, 600)).toBe(true);
+      expect(rateLimiter.hasCapacity(state, 1, 600)).toBe(false);
+      expect(rateLimiter.hasCapacity(state, 1, 400)).toBe(true);
+      expect(state.limitBuckets[0].tokens).toBe(499);
+    });
+
+    it('should refill over the window', () => {
+      const state = createKeyState({
+        rps: undefined,
+        limits: [{ unit: 'tokens', per: 'minute', max: 1000 }],
+      });
+      rateLimiter.tryConsume(state, 1, 1000);
+
+      // 500 tokens refill in half a minute
+      expect(rateLimiter.getTimeUntilAvailable(state, 1, 500)).toBe(30000);
+
+      vi.advanceTimersByTime(30000);
+      expect(rateLimiter.hasCapacity(state, 1, 500)).toBe(true);
+    });
+
+    it('should report the wait of the binding limit', () => {
+      const state = createKeyState({
+        rps: 10,
+        limits: [
+          { per: 'second', max: 5 },
+          { per: 'minute', max: 5 },
+        ],
+      });
+      for (let i = 0; i < 5; i++) {
+        rateLimiter.tryConsume(state);
+      }
+
+      // One request refills in 200ms per second, but 12s per minute
+      expect(rateLimiter.getTimeUntilAvailable(state)).toBe(12000);
+    });
+
+    it('should correct consumed tokens with the actual usage', () => {
+      const state = createKeyState({
+        rps: undefined,
+        limits: [
+          { unit: 'requests', per: 'minute', max: 10 },
+          { unit: 'tokens', per: 'minute', max: 1000 },
+        ],
+      });
+      rateLimiter.tryConsume(state, 1, 100);
+
+      rateLimiter.adjust(state, 'tokens', 400);
+      expect(state.limitBuckets[1].tokens).toBe(500);
+      expect(state.limitBuckets[0].tokens).toBe(9);
+
+      // Giving back more than was consumed doesn't overfill the bucket
+      rateLimiter.adjust(state, 'tokens', -2000);
+      expect(state.limitBuckets[1].tokens).toBe(1000);
+    });
+
+    it('should report usage per window', () => {
+      const state = createKeyState({
+        rps: 10,
+        limits: [
+          { per: 'second', max: 10 },
+          { per: 'minute', max: 300 },
+          { unit: 'tokens', per: 'day', max: 10000 },
+        ],
+      });
+
+      rateLimiter.tryConsume(state, 2, 500);
+
+      expect(rateLimiter.getLimitStats(state)).toEqual([
+        { unit: 'requests', per: 'second', max: 10, used: 2, remaining: 8 },
+        { unit: 'requests', per: 'minute', max: 300, used: 2, remaining: 298 },
+        { unit: 'tokens', per: 'day', max: 10000, used: 500, remaining: 9500 },
+      ]);
+    });
+
+    it('should share global limits between keys', () => {
+      const limiter = new RateLimiter({ globalLimits: [{ per: 'minute', max: 2 }] });
+      const first = createKeyState({ id: 'key-1' });
+      const second = createKeyState({ id: 'key-2' });
+
+      expect(limiter.tryConsume(first)).toBe(true);
+      expect(limiter.tryConsume(second)).toBe(true);
+
+      expect(limiter.hasCapacity(first)).toBe(false);
+      expect(limiter.hasCapacity(second)).toBe(false);
+      expect(limiter.getTimeUntilAvailable(second)).toBe(30000);
+      expect(limiter.getGlobalRps()).toBeCloseTo(2 / 60);
+    });
+
+    it('should share group limits between keys of the group only', () => {
+      const limits: RateLimitConfig[] = [{ per: 'second', max: 1 }];
+      const group: GroupState = {
+        id: 'org',
+        config: { rps: 1 },
+        quotaUsed: 0,
+        periodStart: new Date(),
+        limits,
+        limitBuckets: [{ tokens: 1, lastRefill: new Date() }],
+      };
+      const limiter = new RateLimiter({ groups: new Map([['org', group]]) });
+      const first = createKeyState({ id: 'key-1', group: 'org' });
+      const second = createKeyState({ id: 'key-2', group: 'org' });
+      const other = createKeyState({ id: 'key-3' });
+
+      expect(limiter.tryConsume(first)).toBe(true);
+
+      expect(limiter.hasCapacity(second)).toBe(false);
+      expect(limiter.hasCapacity(other)).toBe(true);
+      expect(limiter.getTimeUntilAvailable(second)).toBe(1000);
+      expect(limiter.getGroupRps(group)).toBe(1);
+    });
+
+    it('should refill limits on reset', () => {
+      const state = createKeyState({
+        limits: [{ unit: 'tokens', per: 'day', max: 1000 }],
+      });
+      rateLimiter.tryConsume(state, 1, 1000);
+
+      rateLimiter.reset(state);
+
+      expect(state.limitBuckets[0].tokens).toBe(1000);
+    });
+  });
+
+  describe('adaptive', () => {
+    it('should ignore keys that are not adaptive', () => {
+      const state = createKeyState({ rps: 10 });
+
+      rateLimiter.recordRateLimited(state);
+
+      expect(state.learnedRps).toBeNull();
+      expect(rateLimiter.getRps(state)).toBe(10);
+    });
+
+    it('should cut the rate multiplicatively on rate-limited responses', () => {
+      const state = createKeyState({ rps: 10, adaptive: { minRps: 3 } });
+
+      rateLimiter.recordRateLimited(state);
+      expect(state.learnedRps).toBe(5);
+      expect(state.tokens).toBe(5);
+
+      rateLimiter.recordRateLimited(state);
+      expect(state.learnedRps).toBe(3);
+    });
+
+    it('should grow the rate additively on success', () => {
+      const state = createKeyState({ rps: 10, adaptive: { maxRps: 11 } });
+
+      // Each success adds increase / rps, so 10 successes add about 1 rps
+      for (let i = 0; i < 5; i++) {
+        rateLimiter.recordSuccess(state);
+      }
+      expect(state.learnedRps).toBeCloseTo(10.5, 1);
+
+      for (let i = 0; i < 10; i++) {
+        rateLimiter.recordSuccess(state);
+      }
+      expect(state.learnedRps).toBe(11);
+    });
+
+    it('should enforce the learned rate', () => {
+      const state = createKeyState({ rps: 10, adaptive: true });
+      state.tokens = 0;
+      state.lastTokenRefill = new Date();
+
+      rateLimiter.recordRateLimited(state);
+
+      // At the learned 5 RPS, one token takes 200ms
+      expect(rateLimiter.getTimeUntilAvailable(state)).toBe(200);
+      vi.advanceTimersByTime(2000);
+      expect(rateLimiter.getAvailableTokens(state)).toBe(5);
+    });
+
+    it('should persist and load the learned rate', async () => {
+      const storage = new MemoryStorageAdapter();
+      const limiter = new RateLimiter({ storage });
+      const state = createKeyState({ id: 'adaptive-key', rps: 10, adaptive: true });
+
+      limiter.recordRateLimited(state);
+      await vi.runAllTimersAsync();
+      expect(JSON.parse((await storage.get('rate:adaptive-key'))!)).toEqual({ learnedRps: 5 });
+
+      const restored = createKeyState({
+        id: 'adaptive-key',
+        rps: 10,
+        adaptive: { minRps: 6 },
+      });
+      await limiter.loadState(restored);
+      expect(restored.learnedRps).toBe(6);
+    });
+  });
+
+  describe('provider window', () => {
+    it('should hold a key back until the provider window resets', () => {
+      const state = createKeyState({ rps: 10 });
+
+      rateLimiter.syncFromResponse(state, { remaining: 0, resetAfter: 30 });
+
+      expect(rateLimiter.hasCapacity(state)).toBe(false);
+      expect(rateLimiter.getTimeUntilAvailable(state)).toBe(30000);
+
+      vi.advanceTimersByTime(30000);
+      expect(rateLimiter.hasCapacity(state)).toBe(true);
+    });
+
+    it('should count requests against the remaining window', () => {
+      const state = createKeyState({ rps: 10 });
+      rateLimiter.syncFromResponse(state, { remaining: 2, resetAfter: 60 });
+
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+      expect(rateLimiter.hasCapacity(state, 2)).toBe(false);
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+      expect(rateLimiter.tryConsume(state)).toBe(false);
+    });
+  });
+
+  describe('burst', () => {
+    it('should admit up to burst requests at once', () => {
+      const state = createKeyState({ rps: 2, burst: 5 });
+
+      for (let i = 0; i < 5; i++) {
+        expect(rateLimiter.tryConsume(state)).toBe(true);
+      }
+      expect(rateLimiter.tryConsume(state)).toBe(false);
+    });
+
+    it('should refill at rps up to burst', () => {
+      const state = createKeyState({ rps: 2, burst: 5 });
+      for (let i = 0; i < 5; i++) {
+        rateLimiter.tryConsume(state);
+      }
+
+      expect(rateLimiter.getTimeUntilAvailable(state)).toBe(500);
+
+      vi.advanceTimersByTime(10000);
+      expect(rateLimiter.getAvailableTokens(state)).toBe(5);
+    });
+
+    it('should smooth requests with a burst of 1', () => {
+      const state = createKeyState({ rps: 10, burst: 1 });
+
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+      expect(rateLimiter.tryConsume(state)).toBe(false);
+
+      vi.advanceTimersByTime(100);
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+    });
+
+    it('should reset to a full burst', () => {
+      const state = createKeyState({ rps: 2, burst: 5 });
+      rateLimiter.tryConsume(state, 5);
+
+      rateLimiter.reset(state);
+
+      expect(rateLimiter.getAvailableTokens(state)).toBe(5);
+    });
+  });
+
+  describe('sliding window', () => {
+    it('should admit at most rps requests within any second', () => {
+      const state = createKeyState({ rps: 2, algorithm: 'sliding-window' });
+
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+      vi.advanceTimersByTime(600);
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+      expect(rateLimiter.tryConsume(state)).toBe(false);
+
+      // A token bucket would have refilled one token by now
+      vi.advanceTimersByTime(300);
+      expect(rateLimiter.tryConsume(state)).toBe(false);
+
+      vi.advanceTimersByTime(100);
+      expect(rateLimiter.tryConsume(state)).toBe(true);
+    });
+
+    it('should wait until the oldest requests leave the window', () => {
+      const state = createKeyState({ rps: 2, algorithm: 'sliding-window' });
+      rateLimiter.tryConsume(state);
+      vi.advanceTimersByTime(400);
+      rateLimiter.tryConsume(state);
+
+      expect(rateLimiter.getAvailableTokens(state)).toBe(0);
+      expect(rateLimiter.getCurrentRps(state)).toBe(2);
+      expect(rateLimiter.getTimeUntilAvailable(state)).toBe(600);
+      expect(rateLimiter.getTimeUntilAvailable(state, 2)).toBe(1000);
+    });
+
+    it('should admit an expensive request once the window is empty', () => {
+      const state = createKeyState({ rps: 2, algorithm: 'sliding-window' });
+      rateLimiter.tryConsume(state);
+
+      expect(rateLimiter.hasCapacity(state, 5)).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect(rateLimiter.tryConsume(state, 5)).toBe(true);
+      expect(rateLimiter.tryConsume(state)).toBe(false);
+      expect(rateLimiter.getTimeUntilAvailable(state)).toBe(1000);
+    });
+
+    it('should clear the window on reset', () => {
+      const state = createKeyState({ rps: 2, algorithm: 'sliding-window' });
+      rateLimiter.tryConsume(state, 2);
+
+      rateLimiter.reset(state);
+
+      expect(rateLimiter.hasCapacity(state)).toBe(true);
+      expect(state.requestLog).toEqual([]);
+    });
+  });
 });
@@ -4,7 +4,7 @@ import { RateLimiter } from '../app/rate-limiter.js';
 import { QuotaTracker } from '../app/quota-tracker.js';
 import { CircuitBreaker } from '../app/circuit-breaker.js';
 import { MemoryStorageAdapter } from '../app/storage/memory.js';
-import type { KeyState, KeyConfig } from '../app/types.js';
+import type { KeyState, KeyConfig, SelectionCandidate } from '../app/types.js';
 
 function createKeyState(overrides: Partial<KeyConfig> = {}, stateOverrides: Partial<KeyState> = {}): KeyState {
   const config: KeyConfig = {
@@ -25,8 +25,17 @@ function createKeyState(overrides: Partial<KeyConfig> = {}, stateOverrides: Part
     circuitOpenUntil: null,
     consecutiveFailures: 0,
     lastUsed: null,
+    lastSelected: 0,
     tokens: config.rps ?? 10,
     lastTokenRefill: new Date(),
+    learnedRps: config.adaptive ? config.rps ?? null : null,
+    providerWindow: null,
+    inFlight: 0,
+    requestLog: [],
+    limitBuckets: (config.limits ?? []).map(limit => ({
+      tokens: limit.max,
+      lastRefill: new Date(),
+    })),
     ...stateOverrides,
   };
 }
@@ -80,6 +89,17 @@ describe('KeySelector', () => {
       expect(selected!.config.id).toBe('key-2');
     });
 
+    it('should skip keys without capacity for the cost', () => {
+      const states = [
+        createKeyState({ id: 'key-1' }, { tokens: 3, lastTokenRefill: new Date() }),
+        createKeyState({ id: 'key-2' }, { quotaUsed: 998 }),
+        createKeyState({ id: 'key-3' }),
+      ];
+
+      const selected = selector.selectKey(states, undefined, 5);
+      expect(selected!.config.id).toBe('key-3');
+    });
+
     it('should skip quota-exhausted keys', () => {
       const states = [
         createKeyState({ id: 'key-1', quota: { type: 'monthly', limit: 100 } }, { quotaUsed: 100 }),
@@ -184,6 +204,54 @@ describe('KeySelector', () => {
     });
   });
 
+  describe('strategy', () => {
+    it('should let the strategy pick among available keys with their stats', () => {
+      const select = vi.fn((candidates: SelectionCandidate[]) => candidates[candidates.length - 1]);
+      selector = new KeySelector({
+        rateLimiter,
+        quotaTracker,
+        circuitBreaker,
+        strategy: { select },
+      });
+      const states = [
+        createKeyState({ id: 'key-1' }),
+        createKeyState({ id: 'key-2' }, { rateLimitedUntil: new Date(Date.now() + 1000) }),
+        createKeyState({ id: 'key-3' }, { quotaUsed: 10 }),
+      ];
+
+      expect(selector.selectKey(states)!.config.id).toBe('key-3');
+
+      const candidates = select.mock.calls[0][0];
+      expect(candidates.map(c => c.index)).toEqual([0, 2]);
+      expect(candidates[1].stats).toMatchObject({ id: 'key-3', quotaUsed: 10, quotaRemaining: 990 });
+    });
+
+    it('should not call the strategy when no keys are available', () => {
+      const select = vi.fn();
+      selector = new KeySelector({
+        rateLimiter,
+        quotaTracker,
+        circuitBreaker,
+        strategy: { select },
+      });
+
+      expect(selector.selectKey([createKeyState()], new Set(['test-key']))).toBeNull();
+      expect(select).not.toHaveBeenCalled();
+    });
+
+    it('should continue round-robin after keys tried by the request', () => {
+      const states = [
+        createKeyState({ id: 'key-1' }),
+        createKeyState({ id: 'key-2' }),
+        createKeyState({ id: 'key-3' }),
+      ];
+
+      expect(selector.selectKey(states)!.config.id).toBe('key-1');
+      expect(selector.selectKey(states, new Set(['key-1']))!.config.id).toBe('key-2');
+      expect(selector.selectKey(states, new Set(['key-1', 'key-2']))!.config.id).toBe('key-3');
+    });
+  });
+
   describe('isKeyAvailable', () => {
     it('should return true for healthy key', () => {
       const state = createKeyState();
@@ -210,6 +278,14 @@ describe('KeySelector', () => {
       });
       expect(selector.isKeyAvailable(state)).toBe(false);
     });
+
+    it('should return false for a key at its concurrency limit', () => {
+      const state = createKeyState({ maxConcurrent: 2 }, { inFlight: 1 });
+      expect(selector.isKeyAvailable(state)).toBe(true);
+
+      state.inFlight = 2;
+      expect(selector.isKeyAvailable(state)).toBe(false);
+    });
   });
 
   describe('getAvailableCount', () => {
@@ -242,6 +318,7 @@ describe('KeySelector', () => {
           circuitState: 'open',
           circuitOpenUntil: new Date(Date.now() + 10000),
         }), // circuit open
+        createKeyState({ id: 'key-5', maxConcurrent: 1 }, { inFlight: 1 }), // concurrency saturated
       ];
 
       const breakdown = selector.getAvailabilityBreakdown(states);
@@ -249,6 +326,7 @@ describe('KeySelector', () => {
       expect(breakdown.rateLimited).toBe(1);
       expect(breakdown.quotaExhausted).toBe(1);
       expect(breakdown.circuitOpen).toBe(1);
+      expect(breakdown.concurrencySaturated).toBe(1);
     });
   });
 
@@ -275,6 +353,24 @@ describe('KeySelector', () => {
 
       expect(selector.getNextAvailableTime(states)).toBe(60000);
     });
+
+    it('should wait for the binding window of stacked limits', () => {
+      const state = createKeyState({
+        id: 'key-1',
+        rps: 10,
+        limits: [
+          { per: 'minute', max: 300 },
+          { per: 'day', max: 10000 },
+        ],
+      });
+      state.limitBuckets[0].tokens = 100;
+      state.limitBuckets[1].tokens = 0;
+
+      // The per-second and per-minute windows have room, but one request
+      // refills in 8.64s per day
+      expect(selector.isKeyAvailable(state)).toBe(false);
+      expect(selector.getNextAvailableTime([state])).toBe(8640);
+    });
   });
 
   describe('reset', () => {
@@ -67,6 +67,43 @@ describe('MemoryStorageAdapter', () => {
     });
   });
 
+  describe('compareAndSet', () => {
+    it('should set the value when it matches the expected value', async () => {
+      await storage.set('key', 'old');
+
+      expect(await storage.compareAndSet('key', 'old', 'new')).toBe(true);
+      expect(await storage.get('key')).toBe('new');
+    });
+
+    it('should not set the value when it changed', async () => {
+      await storage.set('key', 'changed');
+
+      expect(await storage.compareAndSet('key', 'old', 'new')).toBe(false);
+      expect(await storage.get('key')).toBe('changed');
+    });
+
+    it('should treat null as a missing or expired key', async () => {
+      expect(await storage.compareAndSet('key', null, 'first')).toBe(true);
+      expect(await storage.compareAndSet('key', null, 'second')).toBe(false);
+
+      await storage.set('expiring', 'value', 1);
+      vi.advanceTimersByTime(1001);
+      expect(await storage.compareAndSet('expiring', null, 'fresh')).toBe(true);
+    });
+
+    it('should let only one of two concurrent updates win', async () => {
+      await storage.set('key', '0');
+
+      const results = await Promise.all([
+        storage.compareAndSet('key', '0', '1'),
+        storage.compareAndSet('key', '0', '2'),
+      ]);
+
+      expect(results).toEqual([true, false]);
+      expect(await storage.get('key')).toBe('1');
+    });
+  });
+
   describe('delete', () => {
     it('should delete existing key', async () => {
       await storage.set('key', 'value');
@@ -0,0 +1,167 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  RoundRobinStrategy,
+  RandomStrategy,
+  LeastRecentlyUsedStrategy,
+  LeastInFlightStrategy,
+  registerSelectionStrategy,
+  createSelectionStrategy,
+} from '../app/strategies.js';
+import type { KeyConfig, KeyState, KeyStats, SelectionCandidate } from '../app/types.js';
+
+function createCandidate(
+  index: number,
+  overrides: Partial<KeyConfig> = {},
+  stateOverrides: Partial<KeyState> = {}
+): SelectionCandidate {
+  const config: KeyConfig = {
+    id: `key-${index + 1}`,
+    value: 'test-value',
+    quota: { type: 'unlimited' },
+    ...overrides,
+  };
+
+  const state: KeyState = {
+    config,
+    quotaUsed: 0,
+    periodStart: new Date(),
+    rateLimitedUntil: null,
+    circuitState: 'closed',
+    circuitOpenUntil: null,
+    consecutiveFailures: 0,
+    lastUsed: null,
+    lastSelected: 0,
+    tokens: 0,
+    lastTokenRefill: new Date(),
+    learnedRps: null,
+    providerWindow: null,
+    inFlight: 0,
+    requestLog: [],
+    limitBuckets: [],
+    ...stateOverrides,
+  };
+
+  return { index, state, stats: { id: config.id } as KeyStats };
+}
+
+function selectIds(
+  strategy: RoundRobinStrategy,
+  candidates: SelectionCandidate[],
+  count: number
+): string[] {
+  return Array.from({ length: count }, () => strategy.select(candidates).state.config.id);
+}
+
+describe('RoundRobinStrategy', () => {
+  it('should cycle through candidates in pool order', () => {
+    const strategy = new RoundRobinStrategy();
+    const candidates = [createCandidate(0), createCandidate(1), createCandidate(2)];
+
+    expect(selectIds(strategy, candidates, 4)).toEqual(['key-1', 'key-2', 'key-3', 'key-1']);
+  });
+
+  it('should give each key (weight) consecutive turns', () => {
+    const strategy = new RoundRobinStrategy();
+    const candidates = [createCandidate(0, { weight: 2 }), createCandidate(1)];
+
+    expect(selectIds(strategy, candidates, 6)).toEqual([
+      'key-1', 'key-1', 'key-2', 'key-1', 'key-1', 'key-2',
+    ]);
+  });
+
+  it('should continue after the last key when keys drop out', () => {
+    const strategy = new RoundRobinStrategy();
+    const all = [createCandidate(0), createCandidate(1), createCandidate(2)];
+
+    expect(strategy.select(all).state.config.id).toBe('key-1');
+    expect(strategy.select([all[0], all[2]]).state.config.id).toBe('key-3');
+    expect(strategy.select(all).state.config.id).toBe('key-1');
+  });
+
+  it('should start over on reset', () => {
+    const strategy = new RoundRobinStrategy();
+    const candidates = [createCandidate(0), createCandidate(1)];
+    strategy.select(candidates);
+
+    strategy.reset();
+
+    expect(strategy.select(candidates).state.config.id).toBe('key-1');
+  });
+});
+
+describe('RandomStrategy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pick candidates in proportion to their weight', () => {
+    const strategy = new RandomStrategy();
+    const candidates = [createCandidate(0, { weight: 3 }), createCandidate(1)];
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.7);
+    expect(strategy.select(candidates).state.config.id).toBe('key-1');
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.8);
+    expect(strategy.select(candidates).state.config.id).toBe('key-2');
+  });
+});
+
+describe('LeastRecentlyUsedStrategy', () => {
+  it('should pick the key selected longest ago, never selected keys first', () => {
+    const strategy = new LeastRecentlyUsedStrategy();
+    const candidates = [
+      createCandidate(0, {}, { lastSelected: 2 }),
+      createCandidate(1, {}, { lastSelected: 1 }),
+    ];
+
+    expect(strategy.select(candidates).state.config.id).toBe('key-2');
+
+    candidates.push(createCandidate(2));
+    expect(strategy.select(candidates).state.config.id).toBe('key-3');
+  });
+});
+
+describe('LeastInFlightStrategy', () => {
+  it('should pick the key with the fewest requests in flight', () => {
+    const strategy = new LeastInFlightStrategy();
+    const candidates = [
+      createCandidate(0, {}, { inFlight: 2 }),
+      createCandidate(1, {}, { inFlight: 1 }),
+      createCandidate(2, {}, { inFlight: 3 }),
+    ];
+
+    expect(strategy.select(candidates).state.config.id).toBe('key-2');
+  });
+
+  it('should break ties by least recent selection', () => {
+    const strategy = new LeastInFlightStrategy();
+    const candidates = [
+      createCandidate(0, {}, { inFlight: 1, lastSelected: 2 }),
+      createCandidate(1, {}, { inFlight: 1, lastSelected: 1 }),
+    ];
+
+    expect(strategy.select(candidates).state.config.id).toBe('key-2');
+  });
+});
+
+describe('registerSelectionStrategy', () => {
+  it('should create built-in strategies by name', () => {
+    expect(createSelectionStrategy('round-robin')).toBeInstanceOf(RoundRobinStrategy);
+    expect(createSelectionStrategy('random')).toBeInstanceOf(RandomStrategy);
+    expect(createSelectionStrategy('least-recently-used')).toBeInstanceOf(LeastRecentlyUsedStrategy);
+    expect(createSelectionStrategy('least-in-flight')).toBeInstanceOf(LeastInFlightStrategy);
+    expect(createSelectionStrategy('unknown')).toBeNull();
+  });
+
+  it('should create a new instance of a registered strategy each time', () => {
+    registerSelectionStrategy('last', () => ({
+      select: candidates => candidates[candidates.length - 1],
+    }));
+
+    const first = createSelectionStrategy('last');
+    const second = createSelectionStrategy('last');
+    expect(first).not.toBeNull();
+    expect(first).not.toBe(second);
+    expect(first!.select([createCandidate(0), createCandidate(1)]).state.config.id).toBe('key-2');
+  });
+});
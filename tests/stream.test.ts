@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest';
+import { trackStream } from '../app/stream.js';
+
+function createTracker() {
+  return { complete: vi.fn(), fail: vi.fn() };
+}
+
+function createStream(chunks: string[], error?: Error): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]));
+      } else if (error) {
+        controller.error(error);
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+describe('trackStream', () => {
+  describe('Response', () => {
+    it('should complete once the body is read to the end', async () => {
+      const tracker = createTracker();
+      const response = trackStream(
+        new Response(createStream(['a', 'b']), { status: 201, headers: { 'x-test': '1' } }),
+        tracker
+      );
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get('x-test')).toBe('1');
+      expect(tracker.complete).not.toHaveBeenCalled();
+
+      expect(await response.text()).toBe('ab');
+      expect(tracker.complete).toHaveBeenCalledTimes(1);
+      expect(tracker.fail).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the body errors part-way', async () => {
+      const tracker = createTracker();
+      const error = new Error('connection reset');
+      const response = trackStream(new Response(createStream(['a'], error)), tracker);
+
+      await expect(response.text()).rejects.toThrow('connection reset');
+      expect(tracker.fail).toHaveBeenCalledWith(error);
+      expect(tracker.complete).not.toHaveBeenCalled();
+    });
+
+    it('should complete immediately for a response without a body', () => {
+      const tracker = createTracker();
+      const original = new Response(null, { status: 204 });
+
+      expect(trackStream(original, tracker)).toBe(original);
+      expect(tracker.complete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ReadableStream', () => {
+    it('should complete when the consumer cancels', async () => {
+      const tracker = createTracker();
+      const stream = trackStream(createStream(['a', 'b', 'c']), tracker);
+
+      const reader = stream.getReader();
+      await reader.read();
+      await reader.cancel();
+
+      expect(tracker.complete).toHaveBeenCalledTimes(1);
+      expect(tracker.fail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('async iterable', () => {
+    it('should complete after the last chunk', async () => {
+      const tracker = createTracker();
+      async function* source() {
+        yield 1;
+        yield 2;
+      }
+
+      const chunks: number[] = [];
+      for await (const chunk of trackStream(source(), tracker)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([1, 2]);
+      expect(tracker.complete).toHaveBeenCalledTimes(1);
+      expect(tracker.fail).not.toHaveBeenCalled();
+    });
+
+    it('should complete when the consumer stops early', async () => {
+      const tracker = createTracker();
+      async function* source() {
+        yield 1;
+        yield 2;
+      }
+
+      for await (const _chunk of trackStream(source(), tracker)) {
+        break;
+      }
+
+      expect(tracker.complete).toHaveBeenCalledTimes(1);
+      expect(tracker.fail).not.toHaveBeenCalled();
+    });
+
+    it('should keep the class and members of an iterable object', async () => {
+      class SdkStream {
+        controller = new AbortController();
+
+        async *[Symbol.asyncIterator]() {
+          yield 'a';
+          yield 'b';
+        }
+
+        async collect(): Promise<string[]> {
+          const chunks: string[] = [];
+          for await (const chunk of this) {
+            chunks.push(chunk);
+          }
+          return chunks;
+        }
+      }
+      const tracker = createTracker();
+      const original = new SdkStream();
+
+      const stream = trackStream(original, tracker);
+
+      expect(stream).toBeInstanceOf(SdkStream);
+      expect(stream.controller).toBe(original.controller);
+      expect(tracker.complete).not.toHaveBeenCalled();
+      expect(await stream.collect()).toEqual(['a', 'b']);
+      expect(tracker.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when iteration throws', async () => {
+      const tracker = createTracker();
+      async function* source() {
+        yield 1;
+        throw new Error('stream error');
+      }
+
+      const iterate = async () => {
+        for await (const _chunk of trackStream(source(), tracker)) {
+          // consume
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow('stream error');
+      expect(tracker.fail).toHaveBeenCalledTimes(1);
+      expect(tracker.complete).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should complete immediately for values that are not streams', () => {
+    const tracker = createTracker();
+    const value = { data: 'ok' };
+
+    expect(trackStream(value, tracker)).toBe(value);
+    expect(tracker.complete).toHaveBeenCalledTimes(1);
+  });
+});